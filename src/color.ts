@@ -0,0 +1,260 @@
+// Color conversion helpers
+// sRGB (D65) <-> CIE xy <-> hue/saturation <-> color temperature, Philips Hue gamuts
+// and perceptual color distance. All RGB values are 0-255, brightness is handled
+// separately by Home Assistant so conversions work at full brightness.
+
+export type RGB = [number, number, number];
+export type XY = [number, number];
+export type HS = [number, number]; // hue 0-360, saturation 0-100
+
+// Color gamut triangle of a light (CIE xy corners)
+export interface Gamut {
+  red: XY;
+  green: XY;
+  blue: XY;
+}
+
+// Philips Hue gamuts
+export const GAMUT_A: Gamut = { red: [0.704, 0.296], green: [0.2151, 0.7106], blue: [0.138, 0.08] };
+export const GAMUT_B: Gamut = { red: [0.675, 0.322], green: [0.409, 0.518], blue: [0.167, 0.04] };
+export const GAMUT_C: Gamut = { red: [0.6915, 0.3083], green: [0.17, 0.7], blue: [0.1532, 0.0475] };
+
+// D65 white point, used for black and unknown input
+export const WHITE_POINT_XY: XY = [0.3127, 0.329];
+
+const GAMUT_A_MODELS = ["LST001", "LLC005", "LLC006", "LLC007", "LLC010", "LLC011", "LLC012", "LLC013", "LLC014"];
+const GAMUT_B_MODELS = ["LCT001", "LCT002", "LCT003", "LCT007", "LLM001"];
+
+// Gamut for a Hue model ID, null if unknown (no clamping)
+// Current Hue color bulbs (LCT010+, LCA, LCG, LST002, ...) use gamut C
+export function getGamutForModel(model: string | null | undefined): Gamut | null {
+  if (!model) return null;
+  const id = model.toUpperCase();
+  if (GAMUT_A_MODELS.some((m) => id.includes(m))) return GAMUT_A;
+  if (GAMUT_B_MODELS.some((m) => id.includes(m))) return GAMUT_B;
+  if (/^(LCT0[1-9]|LCA|LCB|LCE|LCG|LCL|LCS|LCX|LCD|LST002|LST003|LST004|LLC020|915005)/.test(id)) return GAMUT_C;
+  return null;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+function crossProduct(a: XY, b: XY): number {
+  return a[0] * b[1] - a[1] * b[0];
+}
+
+// Is the xy point inside the gamut triangle
+export function isInGamut(xy: XY, gamut: Gamut): boolean {
+  const v1: XY = [gamut.green[0] - gamut.red[0], gamut.green[1] - gamut.red[1]];
+  const v2: XY = [gamut.blue[0] - gamut.red[0], gamut.blue[1] - gamut.red[1]];
+  const q: XY = [xy[0] - gamut.red[0], xy[1] - gamut.red[1]];
+
+  const denominator = crossProduct(v1, v2);
+  const s = crossProduct(q, v2) / denominator;
+  const t = crossProduct(v1, q) / denominator;
+
+  return s >= 0 && t >= 0 && s + t <= 1;
+}
+
+function closestPointOnLine(a: XY, b: XY, p: XY): XY {
+  const ap: XY = [p[0] - a[0], p[1] - a[1]];
+  const ab: XY = [b[0] - a[0], b[1] - a[1]];
+  const t = clamp((ap[0] * ab[0] + ap[1] * ab[1]) / (ab[0] * ab[0] + ab[1] * ab[1]), 0, 1);
+  return [a[0] + ab[0] * t, a[1] + ab[1] * t];
+}
+
+function xyDistance(a: XY, b: XY): number {
+  return Math.hypot(a[0] - b[0], a[1] - b[1]);
+}
+
+// Move an xy point to the closest point the light can actually show
+export function clampToGamut(xy: XY, gamut: Gamut): XY {
+  if (isInGamut(xy, gamut)) return xy;
+
+  const candidates = [
+    closestPointOnLine(gamut.red, gamut.green, xy),
+    closestPointOnLine(gamut.blue, gamut.red, xy),
+    closestPointOnLine(gamut.green, gamut.blue, xy),
+  ];
+  return candidates.reduce((best, point) => (xyDistance(point, xy) < xyDistance(best, xy) ? point : best));
+}
+
+// sRGB companding
+function toLinear(c: number): number {
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+function fromLinear(c: number): number {
+  return c <= 0.0031308 ? 12.92 * c : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+}
+
+function rgbToXyz(rgb: RGB): [number, number, number] {
+  const [r, g, b] = rgb.map((c) => toLinear(clamp(c, 0, 255) / 255));
+  return [
+    r * 0.4124 + g * 0.3576 + b * 0.1805,
+    r * 0.2126 + g * 0.7152 + b * 0.0722,
+    r * 0.0193 + g * 0.1192 + b * 0.9505,
+  ];
+}
+
+export function rgbToXy(rgb: RGB, gamut?: Gamut | null): XY {
+  const [X, Y, Z] = rgbToXyz(rgb);
+  const sum = X + Y + Z;
+  if (sum === 0) return WHITE_POINT_XY;
+
+  const xy: XY = [X / sum, Y / sum];
+  return gamut ? clampToGamut(xy, gamut) : xy;
+}
+
+// CIE xy to RGB at full brightness (brightest channel = 255)
+export function xyToRgb(xy: XY, gamut?: Gamut | null): RGB {
+  const [x, y] = gamut ? clampToGamut(xy, gamut) : xy;
+
+  // y = 0 has no defined color (division by zero), fall back to white
+  if (!(y > 0)) return [255, 255, 255];
+
+  const Y = 1.0;
+  const X = (Y / y) * x;
+  const Z = (Y / y) * (1 - x - y);
+
+  // XYZ to linear sRGB (D65), negative values are out of sRGB gamut
+  const linear = [
+    X * 3.2406 - Y * 1.5372 - Z * 0.4986,
+    -X * 0.9689 + Y * 1.8758 + Z * 0.0415,
+    X * 0.0557 - Y * 0.204 + Z * 1.057,
+  ].map((c) => Math.max(0, c));
+
+  // Normalize so the brightest channel is full - brightness is a separate attribute
+  const max = Math.max(...linear);
+  if (max === 0) return [0, 0, 0];
+
+  return linear.map((c) => Math.round(clamp(fromLinear(c / max), 0, 1) * 255)) as RGB;
+}
+
+export function hsToRgb(hs: HS): RGB {
+  const h = (((hs[0] % 360) + 360) % 360) / 360;
+  const s = clamp(hs[1], 0, 100) / 100;
+  const v = 1; // Full brightness, actual brightness is separate attribute
+
+  const i = Math.floor(h * 6);
+  const f = h * 6 - i;
+  const p = v * (1 - s);
+  const q = v * (1 - f * s);
+  const t = v * (1 - (1 - f) * s);
+
+  let r: number, g: number, b: number;
+  switch (i % 6) {
+    case 0: r = v; g = t; b = p; break;
+    case 1: r = q; g = v; b = p; break;
+    case 2: r = p; g = v; b = t; break;
+    case 3: r = p; g = q; b = v; break;
+    case 4: r = t; g = p; b = v; break;
+    default: r = v; g = p; b = q;
+  }
+
+  return [Math.round(r * 255), Math.round(g * 255), Math.round(b * 255)];
+}
+
+export function rgbToHs(rgb: RGB): HS {
+  const [r, g, b] = rgb.map((c) => clamp(c, 0, 255) / 255);
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const d = max - min;
+
+  let h = 0;
+  if (d !== 0) {
+    if (max === r) h = ((g - b) / d) % 6;
+    else if (max === g) h = (b - r) / d + 2;
+    else h = (r - g) / d + 4;
+  }
+  h = (h * 60 + 360) % 360;
+  const s = max === 0 ? 0 : (d / max) * 100;
+
+  return [Math.round(h * 10) / 10, Math.round(s * 10) / 10];
+}
+
+export function rgbToHex(rgb: RGB): string {
+  return `#${rgb.map((c) => Math.round(clamp(c, 0, 255)).toString(16).padStart(2, "0")).join("")}`;
+}
+
+export function hsToXy(hs: HS, gamut?: Gamut | null): XY {
+  return rgbToXy(hsToRgb(hs), gamut);
+}
+
+export function xyToHs(xy: XY, gamut?: Gamut | null): HS {
+  return rgbToHs(xyToRgb(xy, gamut));
+}
+
+// Supported range for the color temperature approximations
+const MIN_KELVIN = 1000;
+const MAX_KELVIN = 40000;
+
+export function kelvinToMired(kelvin: number): number {
+  return Math.round(1000000 / kelvin);
+}
+
+export function miredToKelvin(mired: number): number {
+  return Math.round(1000000 / mired);
+}
+
+// Black body color (Tanner Helland's approximation)
+export function kelvinToRgb(kelvin: number): RGB {
+  const temp = clamp(kelvin, MIN_KELVIN, MAX_KELVIN) / 100;
+
+  const red = temp <= 66 ? 255 : 329.698727446 * Math.pow(temp - 60, -0.1332047592);
+  const green = temp <= 66
+    ? 99.4708025861 * Math.log(temp) - 161.1195681661
+    : 288.1221695283 * Math.pow(temp - 60, -0.0755148492);
+  const blue = temp >= 66 ? 255 : temp <= 19 ? 0 : 138.5177312231 * Math.log(temp - 10) - 305.0447927307;
+
+  return [red, green, blue].map((c) => Math.round(clamp(c, 0, 255))) as RGB;
+}
+
+// Planckian locus in CIE xy (Kim et al. cubic spline, 1667-25000K)
+export function kelvinToXy(kelvin: number): XY {
+  const t = clamp(kelvin, 1667, 25000);
+  const x = t <= 4000
+    ? -0.2661239e9 / t ** 3 - 0.2343589e6 / t ** 2 + 0.8776956e3 / t + 0.17991
+    : -3.0258469e9 / t ** 3 + 2.1070379e6 / t ** 2 + 0.2226347e3 / t + 0.24039;
+  const y = t <= 2222
+    ? -1.1063814 * x ** 3 - 1.3481102 * x ** 2 + 2.18555832 * x - 0.20219683
+    : t <= 4000
+      ? -0.9549476 * x ** 3 - 1.37418593 * x ** 2 + 2.09137015 * x - 0.16748867
+      : 3.081758 * x ** 3 - 5.8733867 * x ** 2 + 3.75112997 * x - 0.37001483;
+  return [x, y];
+}
+
+// Correlated color temperature of an xy point (McCamy's formula)
+export function xyToKelvin(xy: XY): number {
+  // The formula's pole is at y = 0.1858, points at or below it are deep blue/purple far off the
+  // black body curve (or not numbers) - report the coolest temperature instead of dividing by zero
+  const denominator = 0.1858 - xy[1];
+  if (!(denominator < 0) || !Number.isFinite(xy[0])) return MAX_KELVIN;
+
+  const n = (xy[0] - 0.332) / denominator;
+  const cct = 449 * n ** 3 + 3525 * n ** 2 + 6823.3 * n + 5520.33;
+  return Math.round(clamp(cct, MIN_KELVIN, MAX_KELVIN));
+}
+
+export function rgbToKelvin(rgb: RGB): number {
+  return xyToKelvin(rgbToXy(rgb));
+}
+
+// CIELAB (D65) for perceptual comparisons
+export function rgbToLab(rgb: RGB): [number, number, number] {
+  const [X, Y, Z] = rgbToXyz(rgb);
+  const f = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+  const fx = f(X / 0.95047);
+  const fy = f(Y / 1.0);
+  const fz = f(Z / 1.08883);
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+// Perceptual color distance (CIE76 delta E in CIELAB)
+// ~2.3 is a just noticeable difference, below ~10 colors look alike at a glance
+export function colorDistance(a: RGB, b: RGB): number {
+  const [l1, a1, b1] = rgbToLab(a);
+  const [l2, a2, b2] = rgbToLab(b);
+  return Math.hypot(l1 - l2, a1 - a2, b1 - b2);
+}
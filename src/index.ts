@@ -2,165 +2,113 @@
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import {
+  CallToolRequest,
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  Prompt,
+  ReadResourceRequestSchema,
+  Resource,
+  ResourceTemplate,
+  SubscribeRequestSchema,
   Tool,
+  UnsubscribeRequestSchema,
+  isInitializeRequest,
 } from "@modelcontextprotocol/sdk/types.js";
 import { readFileSync, writeFileSync, existsSync, mkdirSync } from "fs";
-import { join } from "path";
-import { homedir } from "os";
+import { createServer as createHttpServer, IncomingMessage, ServerResponse } from "http";
+import { randomUUID, timingSafeEqual } from "crypto";
+import { join, dirname, relative, isAbsolute, sep, resolve as resolvePath } from "path";
+import WebSocket from "ws";
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+import {
+  hsToRgb,
+  xyToRgb,
+  rgbToXy,
+  rgbToHex,
+  colorDistance,
+  miredToKelvin,
+  kelvinToMired,
+  getGamutForModel,
+  clampToGamut,
+  isInGamut,
+  hsToXy,
+  xyToHs,
+  type Gamut,
+  type RGB,
+  type XY,
+  type HS,
+} from "./color.js";
+import {
+  CONFIG_DIR,
+  type LocalSceneBackup,
+  MCP_INSTANCE_ID,
+  hashConfig,
+  type SceneSnapshot,
+  type LightStateSnapshot,
+  type ScenesBackupStore,
+  migrateScenesBackup,
+  withScenesBackupLock,
+  updateScenesBackup,
+  loadScenesBackup,
+  saveScenesBackup,
+  backupScene,
+  removeSceneBackup,
+  getBackupRetentionDays,
+  getTombstoneExpiry,
+  tombstoneSceneBackup,
+  purgeExpiredTombstones,
+  purgeExpiredSceneBackups,
+  getSceneBackup,
+  getAllSceneBackups,
+  getDeletedSceneBackups,
+  saveSceneSnapshot,
+  MAX_LIGHT_SNAPSHOTS,
+  getLightSnapshots,
+  removeLightSnapshots,
+  getSceneSnapshots,
+  findSceneSnapshot,
+  BACKUP_ARCHIVE_FORMAT,
+  BACKUP_ARCHIVE_VERSION,
+  type BackupArchive,
+  writeBackupArchive,
+  validateBackupArchive,
+  mergeScenesBackupStores,
+} from "./store.js";
 
-// Store config in user's home directory so it persists across npx runs
-const CONFIG_DIR = join(homedir(), ".config", "ha-mcp-server");
 const CONFIG_FILE = join(CONFIG_DIR, "config.json");
-const SCENES_BACKUP_FILE = join(CONFIG_DIR, "scenes-backup.json");
-
-// Local backup of scenes created/managed by this MCP
-interface LocalSceneBackup {
-  name: string;
-  mode: "exclusive" | "additive";
-  entities: Record<string, Record<string, unknown> | string>;
-  createdAt: string;
-  updatedAt: string;
-  lastKnownHAHash?: string;   // Hash of HA config when last synced
-  instanceId?: string;         // Which MCP instance last modified
-  lastSyncedFromHA?: string;   // When last synced from HA
-}
-
-// Generate a unique instance ID for this MCP process
-const MCP_INSTANCE_ID = `mcp-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
-
-// Simple hash function for comparing configs
-function hashConfig(entities: Record<string, unknown>): string {
-  const sorted = JSON.stringify(entities, Object.keys(entities).sort());
-  let hash = 0;
-  for (let i = 0; i < sorted.length; i++) {
-    const char = sorted.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash; // Convert to 32bit integer
-  }
-  return hash.toString(16);
-}
-
-// Snapshot of a scene before modification
-interface SceneSnapshot {
-  sceneId: string;
-  name: string;
-  entities: Record<string, Record<string, unknown> | string>;
-  timestamp: string;
-  operation: "update" | "delete";
-}
-
-interface ScenesBackupStore {
-  version: number;
-  scenes: Record<string, LocalSceneBackup>; // keyed by scene ID
-  snapshots?: SceneSnapshot[];              // History of changes for recovery
-}
 
-function loadScenesBackup(): ScenesBackupStore {
-  if (existsSync(SCENES_BACKUP_FILE)) {
-    try {
-      return JSON.parse(readFileSync(SCENES_BACKUP_FILE, "utf-8"));
-    } catch {
-      // ignore
+// Save the current state of lights an action is about to change
+async function saveLightSnapshot(action: string, lights: LightState[]): Promise<void> {
+  const entities: Record<string, Record<string, unknown>> = {};
+  for (const light of lights) {
+    // Unavailable lights have no state to go back to
+    if (light.state === "on" || light.state === "off") {
+      entities[light.entity_id] = buildEntityConfig(light);
     }
   }
-  return { version: 1, scenes: {} };
-}
-
-function saveScenesBackup(store: ScenesBackupStore): void {
-  if (!existsSync(CONFIG_DIR)) {
-    mkdirSync(CONFIG_DIR, { recursive: true });
-  }
-  writeFileSync(SCENES_BACKUP_FILE, JSON.stringify(store, null, 2));
-}
-
-function backupScene(sceneId: string, name: string, mode: "exclusive" | "additive", entities: Record<string, Record<string, unknown> | string>): void {
-  const store = loadScenesBackup();
-  const now = new Date().toISOString();
-  const hash = hashConfig(entities as Record<string, unknown>);
-
-  if (store.scenes[sceneId]) {
-    // Update existing
-    store.scenes[sceneId].name = name;
-    store.scenes[sceneId].mode = mode;
-    store.scenes[sceneId].entities = entities;
-    store.scenes[sceneId].updatedAt = now;
-    store.scenes[sceneId].lastKnownHAHash = hash;
-    store.scenes[sceneId].instanceId = MCP_INSTANCE_ID;
-  } else {
-    // New scene
-    store.scenes[sceneId] = {
-      name,
-      mode,
-      entities,
-      createdAt: now,
-      updatedAt: now,
-      lastKnownHAHash: hash,
-      instanceId: MCP_INSTANCE_ID,
-    };
-  }
-
-  saveScenesBackup(store);
-}
-
-function removeSceneBackup(sceneId: string): void {
-  const store = loadScenesBackup();
-  if (store.scenes[sceneId]) {
-    delete store.scenes[sceneId];
-    saveScenesBackup(store);
+  if (Object.keys(entities).length === 0) {
+    return;
   }
-}
-
-function getSceneBackup(sceneId: string): LocalSceneBackup | null {
-  const store = loadScenesBackup();
-  return store.scenes[sceneId] || null;
-}
 
-function getAllSceneBackups(): Record<string, LocalSceneBackup> {
-  const store = loadScenesBackup();
-  return store.scenes;
+  const snapshot: LightStateSnapshot = { action, entities, timestamp: new Date().toISOString() };
+  await updateScenesBackup((store) => {
+    store.lightSnapshots = [snapshot, ...(store.lightSnapshots || [])].slice(0, MAX_LIGHT_SNAPSHOTS);
+  });
 }
 
-// Maximum number of snapshots to keep
-const MAX_SNAPSHOTS = 20;
-
-// Save a snapshot of scene state before modification
-function saveSceneSnapshot(sceneId: string, name: string, entities: Record<string, Record<string, unknown> | string>, operation: "update" | "delete"): void {
-  const store = loadScenesBackup();
-  const snapshot: SceneSnapshot = {
-    sceneId,
-    name,
-    entities,
-    timestamp: new Date().toISOString(),
-    operation,
+// Scene settings stored alongside a snapshot
+function getSnapshotSettings(sceneConfig: SceneConfig): Pick<SceneSnapshot, "mode" | "transition" | "icon"> {
+  return {
+    mode: (sceneConfig.metadata?.mode as "exclusive" | "additive") || "exclusive",
+    transition: getSceneTransition(sceneConfig),
+    icon: sceneConfig.icon,
   };
-
-  // Initialize snapshots array if needed
-  if (!store.snapshots) {
-    store.snapshots = [];
-  }
-
-  // Add new snapshot at the beginning
-  store.snapshots.unshift(snapshot);
-
-  // Keep only the last MAX_SNAPSHOTS
-  if (store.snapshots.length > MAX_SNAPSHOTS) {
-    store.snapshots = store.snapshots.slice(0, MAX_SNAPSHOTS);
-  }
-
-  saveScenesBackup(store);
-}
-
-// Get recent snapshots for a scene
-function getSceneSnapshots(sceneId?: string): SceneSnapshot[] {
-  const store = loadScenesBackup();
-  const snapshots = store.snapshots || [];
-  if (sceneId) {
-    return snapshots.filter((s) => s.sceneId === sceneId);
-  }
-  return snapshots;
 }
 
 // Sync backup from Home Assistant
@@ -171,42 +119,51 @@ async function syncBackupFromHA(): Promise<{ synced: number; errors: string[] }>
 
   try {
     const scenes = await getScenes();
-    const store = loadScenesBackup();
-    const now = new Date().toISOString();
+    const deleted = getDeletedSceneBackups();
 
+    // Fetch configs first - the store is only locked for the synchronous update below
+    const configs: [string, SceneConfig][] = [];
     for (const scene of scenes) {
       if (!scene.attributes.id) continue;
+      // Deleted through this server - don't bring the backup back
+      if (deleted[scene.attributes.id]) continue;
 
       try {
         const config = await getSceneConfig(scene.attributes.id);
-        if (!config) continue;
+        if (config) configs.push([scene.attributes.id, config]);
+      } catch (err) {
+        errors.push(`Failed to sync scene ${scene.attributes.id}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+
+    await updateScenesBackup((store) => {
+      const now = new Date().toISOString();
+      purgeExpiredTombstones(store);
 
+      for (const [sceneId, config] of configs) {
         const hash = hashConfig(config.entities as Record<string, unknown>);
-        const existing = store.scenes[scene.attributes.id];
+        const existing = store.scenes[sceneId];
+        if (existing?.deletedAt) continue;
 
         // Only update if hash changed or doesn't exist locally
         if (!existing || existing.lastKnownHAHash !== hash) {
           const mode = (config.metadata?.mode as "exclusive" | "additive") || "exclusive";
-          store.scenes[scene.attributes.id] = {
+          store.scenes[sceneId] = {
             name: config.name,
             mode,
             entities: config.entities,
+            transition: getSceneTransition(config),
             createdAt: existing?.createdAt || now,
             updatedAt: now,
             lastKnownHAHash: hash,
+            lastKnownHAConfig: { mode, entities: config.entities },
             instanceId: existing?.instanceId || MCP_INSTANCE_ID,
             lastSyncedFromHA: now,
           };
           synced++;
         }
-      } catch (err) {
-        errors.push(`Failed to sync scene ${scene.attributes.id}: ${err instanceof Error ? err.message : String(err)}`);
       }
-    }
-
-    if (synced > 0) {
-      saveScenesBackup(store);
-    }
+    });
   } catch (err) {
     errors.push(`Failed to fetch scenes: ${err instanceof Error ? err.message : String(err)}`);
   }
@@ -273,66 +230,11 @@ interface LightState {
     effect_list?: string[];
     effect?: string | null;
     color_mode?: string | null;
-    off_with_transition?: boolean;
-    off_brightness?: number | null;
+    off_with_transition?: boolean;  // Last turned off with a fade (ZHA)
     supported_features?: number;
   };
 }
 
-// Color conversion helpers
-function hsToRgb(h: number, s: number): [number, number, number] {
-  // h: 0-360, s: 0-100 -> RGB 0-255
-  const hNorm = h / 360;
-  const sNorm = s / 100;
-  const v = 1; // Full brightness, actual brightness is separate attribute
-
-  const i = Math.floor(hNorm * 6);
-  const f = hNorm * 6 - i;
-  const p = v * (1 - sNorm);
-  const q = v * (1 - f * sNorm);
-  const t = v * (1 - (1 - f) * sNorm);
-
-  let r: number, g: number, b: number;
-  switch (i % 6) {
-    case 0: r = v; g = t; b = p; break;
-    case 1: r = q; g = v; b = p; break;
-    case 2: r = p; g = v; b = t; break;
-    case 3: r = p; g = q; b = v; break;
-    case 4: r = t; g = p; b = v; break;
-    case 5: r = v; g = p; b = q; break;
-    default: r = 0; g = 0; b = 0;
-  }
-
-  return [Math.round(r * 255), Math.round(g * 255), Math.round(b * 255)];
-}
-
-function xyToRgb(x: number, y: number): [number, number, number] {
-  // CIE xy to RGB conversion (sRGB color space)
-  const z = 1.0 - x - y;
-  const Y = 1.0; // Full brightness
-  const X = (Y / y) * x;
-  const Z = (Y / y) * z;
-
-  // XYZ to RGB (sRGB D65)
-  let r = X * 3.2406 - Y * 1.5372 - Z * 0.4986;
-  let g = -X * 0.9689 + Y * 1.8758 + Z * 0.0415;
-  let b = X * 0.0557 - Y * 0.2040 + Z * 1.0570;
-
-  // Gamma correction
-  const gammaCorrect = (c: number) => {
-    if (c <= 0.0031308) return 12.92 * c;
-    return 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
-  };
-
-  r = gammaCorrect(r);
-  g = gammaCorrect(g);
-  b = gammaCorrect(b);
-
-  // Clamp and scale to 0-255
-  const clamp = (v: number) => Math.max(0, Math.min(255, Math.round(v * 255)));
-  return [clamp(r), clamp(g), clamp(b)];
-}
-
 function getRgbColor(attrs: LightState['attributes']): [number, number, number] | null {
   // Return RGB color from any available color format
   if (attrs.rgb_color) {
@@ -346,14 +248,42 @@ function getRgbColor(attrs: LightState['attributes']): [number, number, number]
     return [attrs.rgbww_color[0], attrs.rgbww_color[1], attrs.rgbww_color[2]];
   }
   if (attrs.hs_color) {
-    return hsToRgb(attrs.hs_color[0], attrs.hs_color[1]);
+    return hsToRgb(attrs.hs_color);
   }
   if (attrs.xy_color) {
-    return xyToRgb(attrs.xy_color[0], attrs.xy_color[1]);
+    return xyToRgb(attrs.xy_color);
   }
   return null;
 }
 
+// Reference colors for human-readable descriptions
+const COLOR_DESCRIPTIONS: Array<[string, RGB]> = [
+  ["red", [255, 0, 0]],
+  ["orange", [255, 140, 0]],
+  ["yellow", [255, 230, 0]],
+  ["green", [0, 255, 0]],
+  ["cyan", [0, 255, 255]],
+  ["blue", [0, 0, 255]],
+  ["purple/magenta", [200, 0, 255]],
+  ["pink/salmon", [255, 150, 160]],
+];
+
+// Beyond this perceptual distance the color has no good short name
+const COLOR_DESCRIPTION_MAX_DISTANCE = 40;
+
+function describeColor(rgb: RGB): string {
+  let best = "custom color";
+  let bestDistance = COLOR_DESCRIPTION_MAX_DISTANCE;
+  for (const [name, reference] of COLOR_DESCRIPTIONS) {
+    const distance = colorDistance(rgb, reference);
+    if (distance < bestDistance) {
+      best = name;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
 interface HAScene {
   entity_id: string;
   state: string;
@@ -372,6 +302,205 @@ interface SceneConfig {
   metadata?: Record<string, unknown>;
 }
 
+// Default transition (seconds) stored in scene metadata
+function getSceneTransition(sceneConfig: SceneConfig | null): number | undefined {
+  const transition = sceneConfig?.metadata?.transition;
+  return typeof transition === "number" ? transition : undefined;
+}
+
+// Per-light difference between two scene entity maps
+interface SceneEntityDiff {
+  added: string[];
+  removed: string[];
+  changed: Record<string, { before: Record<string, unknown> | string; after: Record<string, unknown> | string }>;
+}
+
+// Scene config a tool would write, reported by dry runs
+interface PlannedSceneChange {
+  scene_id: string;
+  name: string;
+  change: "create" | "update";
+  diff: SceneEntityDiff;
+}
+
+// JSON with sorted object keys, for order-independent comparisons
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record).sort().map((key) => `${JSON.stringify(key)}:${stableStringify(record[key])}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+// "off" and { state: "off" } mean the same thing in a scene
+function normalizeSceneEntity(entityConfig: Record<string, unknown> | string): Record<string, unknown> {
+  return typeof entityConfig === "string" ? { state: entityConfig } : entityConfig;
+}
+
+function diffSceneEntities(before: SceneConfig["entities"], after: SceneConfig["entities"]): SceneEntityDiff {
+  const diff: SceneEntityDiff = { added: [], removed: [], changed: {} };
+
+  for (const [entityId, entityConfig] of Object.entries(after)) {
+    if (!(entityId in before)) {
+      diff.added.push(entityId);
+    } else if (stableStringify(normalizeSceneEntity(before[entityId])) !== stableStringify(normalizeSceneEntity(entityConfig))) {
+      diff.changed[entityId] = { before: before[entityId], after: entityConfig };
+    }
+  }
+  for (const entityId of Object.keys(before)) {
+    if (!(entityId in after)) {
+      diff.removed.push(entityId);
+    }
+  }
+
+  return diff;
+}
+
+// Three-way scene merge: base = config last seen in HA (behind lastKnownHAHash),
+// ours = local backup, theirs = current HA config
+type MergeSide = "ours" | "theirs";
+
+interface SceneAttributeConflict {
+  attribute: string; // "color" covers color_mode and all color attributes together
+  base?: unknown;
+  ours?: unknown;
+  theirs?: unknown;
+}
+
+interface SceneLightConflict {
+  entity_id: string;
+  base?: Record<string, unknown> | string; // Missing = light not in that version
+  ours?: Record<string, unknown> | string;
+  theirs?: Record<string, unknown> | string;
+  attributes?: SceneAttributeConflict[];   // Both sides changed these - other attributes merged cleanly
+}
+
+interface SceneMergeResult {
+  entities: SceneConfig["entities"];
+  mode: "exclusive" | "additive";
+  base_known: boolean;   // Backups from before the base was stored merge two-way
+  from_ours: string[];   // Lights only changed locally
+  from_theirs: string[]; // Lights only changed in HA
+  combined: string[];    // Lights with changes from both sides that didn't overlap
+  conflicts: SceneLightConflict[];
+  mode_conflict?: { base?: string; ours: string; theirs: string };
+}
+
+function sameSceneValue(a: unknown, b: unknown): boolean {
+  return stableStringify(a) === stableStringify(b);
+}
+
+// Merge one light. Conflicts use `side`, or when unresolved: HA's attributes,
+// and a light that only one side has is kept
+function mergeSceneLight(
+  entityId: string,
+  base: Record<string, unknown> | string | undefined,
+  baseKnown: boolean,
+  ours: Record<string, unknown> | string | undefined,
+  theirs: Record<string, unknown> | string | undefined,
+  side: MergeSide | undefined
+): { value?: Record<string, unknown> | string; from?: MergeSide | "both"; conflict?: SceneLightConflict } {
+  const [b, o, t] = [base, ours, theirs].map((e) => (e === undefined ? undefined : normalizeSceneEntity(e)));
+  if (sameSceneValue(o, t)) return { value: ours };
+  if (baseKnown && sameSceneValue(b, o)) return { value: theirs, from: "theirs" };
+  if (baseKnown && sameSceneValue(b, t)) return { value: ours, from: "ours" };
+
+  const conflict: SceneLightConflict = {
+    entity_id: entityId,
+    ...(base !== undefined ? { base } : {}),
+    ...(ours !== undefined ? { ours } : {}),
+    ...(theirs !== undefined ? { theirs } : {}),
+  };
+
+  // Added or removed on one side, changed on the other - pick a whole version
+  if (!o || !t) {
+    return { value: side === "ours" ? ours : side === "theirs" ? theirs : ours ?? theirs, conflict };
+  }
+
+  // Both changed the light - merge attribute by attribute
+  const groupOf = (attribute: string) =>
+    attribute === "color_mode" || (SCENE_COLOR_ATTRIBUTES as readonly string[]).includes(attribute) ? "color" : attribute;
+  const pick = (entity: Record<string, unknown> | undefined, group: string) =>
+    Object.fromEntries(Object.entries(entity ?? {}).filter(([key]) => groupOf(key) === group));
+  const show = (values: Record<string, unknown>, group: string) => (group === "color" ? values : values[group]);
+
+  const merged: Record<string, unknown> = {};
+  const attributes: SceneAttributeConflict[] = [];
+  for (const group of new Set([...Object.keys(b ?? {}), ...Object.keys(o), ...Object.keys(t)].map(groupOf))) {
+    const [bv, ov, tv] = [pick(b, group), pick(o, group), pick(t, group)];
+    let value = ov;
+    if (!sameSceneValue(ov, tv)) {
+      if (baseKnown && sameSceneValue(bv, ov)) {
+        value = tv;
+      } else if (!baseKnown || !sameSceneValue(bv, tv)) {
+        attributes.push({
+          attribute: group,
+          ...(baseKnown ? { base: show(bv, group) } : {}),
+          ours: show(ov, group),
+          theirs: show(tv, group),
+        });
+        value = side === "ours" ? ov : tv;
+      }
+    }
+    Object.assign(merged, value);
+  }
+
+  return attributes.length > 0
+    ? { value: merged, conflict: { ...conflict, attributes } }
+    : { value: merged, from: "both" };
+}
+
+// Merge the local backup and the current HA config against the stored base
+// `resolve` picks a side per light (or "mode"), undefined leaves the conflict unresolved
+function mergeSceneConfigs(
+  backup: LocalSceneBackup,
+  haConfig: SceneConfig,
+  resolve: (key: string) => MergeSide | undefined = () => undefined
+): SceneMergeResult {
+  const base = backup.lastKnownHAConfig;
+  const baseEntities = base?.entities ?? {};
+  const result: SceneMergeResult = {
+    entities: {},
+    mode: backup.mode,
+    base_known: !!base,
+    from_ours: [],
+    from_theirs: [],
+    combined: [],
+    conflicts: [],
+  };
+
+  const lightIds = new Set([...Object.keys(baseEntities), ...Object.keys(backup.entities), ...Object.keys(haConfig.entities)]);
+  for (const entityId of lightIds) {
+    const merged = mergeSceneLight(
+      entityId, baseEntities[entityId], !!base, backup.entities[entityId], haConfig.entities[entityId], resolve(entityId)
+    );
+    if (merged.value !== undefined) result.entities[entityId] = merged.value;
+    if (merged.conflict) result.conflicts.push(merged.conflict);
+    else if (merged.from === "ours") result.from_ours.push(entityId);
+    else if (merged.from === "theirs") result.from_theirs.push(entityId);
+    else if (merged.from === "both") result.combined.push(entityId);
+  }
+
+  // Scenes saved without a mode (HA UI) keep ours
+  const ours = backup.mode;
+  const theirs = (haConfig.metadata?.mode as "exclusive" | "additive" | undefined) || ours;
+  if (ours !== theirs) {
+    if (base?.mode === ours) {
+      result.mode = theirs;
+    } else if (base?.mode === theirs) {
+      result.mode = ours;
+    } else {
+      result.mode_conflict = { ...(base ? { base: base.mode } : {}), ours, theirs };
+      result.mode = resolve("mode") === "ours" ? ours : theirs;
+    }
+  }
+
+  return result;
+}
+
 // Home Assistant API helpers with retry logic
 const MAX_RETRIES = 3;
 const RETRY_DELAY_MS = 1000;
@@ -414,7 +543,251 @@ async function haFetch(endpoint: string, options: RequestInit = {}): Promise<Res
   throw lastError || new Error(`Failed to fetch ${endpoint} after ${MAX_RETRIES} attempts`);
 }
 
+// Home Assistant WebSocket API
+// A single persistent connection keeps a live cache of light and scene states
+// (get_states + state_changed events), so helpers don't have to download the
+// full /api/states on every call. REST via haFetch is the fallback whenever
+// the socket is not available.
+const WS_CONNECT_TIMEOUT_MS = 5000;
+const WS_RECONNECT_DELAY_MS = 5000;   // Reconnect delay after a dropped connection
+const WS_RETRY_BACKOFF_MS = 60000;    // Don't retry a failed connect on every call
+const STATE_POLL_INTERVAL_MS = 50;    // REST polling interval when the socket is down
+
+interface HAWebSocketMessage {
+  id?: number;
+  type: string;
+  success?: boolean;
+  result?: unknown;
+  error?: { code: string; message: string };
+  message?: string;
+  event?: {
+    event_type: string;
+    data: {
+      entity_id: string;
+      new_state: LightState | null;
+      old_state: LightState | null;
+    };
+  };
+}
+
+type StateChangeListener = (entityId: string, newState: LightState | null) => void;
+
+let wsSocket: WebSocket | null = null;
+let wsConnecting: Promise<boolean> | null = null;
+let wsReady = false;
+let wsRetryAfter = 0;
+let wsMessageId = 0;
+const wsPending: Map<number, { resolve: (result: unknown) => void; reject: (error: Error) => void }> = new Map();
+
+// Live state of light.* and scene.* entities, keyed by entity_id
+const stateCache: Map<string, LightState | HAScene> = new Map();
+const stateChangeListeners: Set<StateChangeListener> = new Set();
+
+function isCachedEntity(entityId: string): boolean {
+  return entityId.startsWith("light.") || entityId.startsWith("scene.");
+}
+
+function getWebSocketUrl(): string {
+  return `${config.ha_url.replace(/^http/, "ws")}/api/websocket`;
+}
+
+function sendWsCommand(command: Record<string, unknown>): Promise<unknown> {
+  const socket = wsSocket;
+  if (!socket || socket.readyState !== WebSocket.OPEN) {
+    return Promise.reject(new Error("WebSocket not connected"));
+  }
+
+  const id = ++wsMessageId;
+  return new Promise((resolve, reject) => {
+    wsPending.set(id, { resolve, reject });
+    socket.send(JSON.stringify({ id, ...command }));
+  });
+}
+
+function handleStateChanged(data: NonNullable<HAWebSocketMessage["event"]>["data"]): void {
+  if (!isCachedEntity(data.entity_id)) return;
+
+  if (data.new_state) {
+    stateCache.set(data.entity_id, data.new_state);
+  } else {
+    // Entity removed (e.g. scene deleted and reloaded)
+    stateCache.delete(data.entity_id);
+  }
+
+  for (const listener of stateChangeListeners) {
+    listener(data.entity_id, data.new_state);
+  }
+}
+
+// Connect, authenticate and load the initial state cache
+// Resolves to false (never throws) so callers can fall back to REST
+function connectWebSocket(): Promise<boolean> {
+  if (wsReady) return Promise.resolve(true);
+  if (wsConnecting) return wsConnecting;
+  if (!config.ha_url || !config.ha_token || Date.now() < wsRetryAfter) {
+    return Promise.resolve(false);
+  }
+
+  const socket = new WebSocket(getWebSocketUrl());
+  wsSocket = socket;
+
+  wsConnecting = new Promise<boolean>((resolve) => {
+    let settled = false;
+    const finish = (ok: boolean) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      if (wsSocket === socket) {
+        wsConnecting = null;
+        if (!ok) {
+          wsRetryAfter = Date.now() + WS_RETRY_BACKOFF_MS;
+        }
+      }
+      if (!ok) {
+        socket.terminate();
+      }
+      resolve(ok);
+    };
+    const timer = setTimeout(() => finish(false), WS_CONNECT_TIMEOUT_MS);
+
+    socket.on("message", (raw) => {
+      let message: HAWebSocketMessage;
+      try {
+        message = JSON.parse(raw.toString());
+      } catch {
+        return;
+      }
+
+      switch (message.type) {
+        case "auth_required":
+          socket.send(JSON.stringify({ type: "auth", access_token: config.ha_token }));
+          break;
+        case "auth_ok":
+          // Subscribe before fetching states so no change slips in between
+          Promise.all([
+            sendWsCommand({ type: "subscribe_events", event_type: "state_changed" }),
+            sendWsCommand({ type: "get_states" }),
+          ])
+            .then(([, states]) => {
+              stateCache.clear();
+              for (const state of states as LightState[]) {
+                if (isCachedEntity(state.entity_id)) {
+                  stateCache.set(state.entity_id, state);
+                }
+              }
+              wsReady = true;
+              finish(true);
+            })
+            .catch(() => finish(false));
+          break;
+        case "auth_invalid":
+          console.error(`Home Assistant WebSocket authentication failed: ${message.message || "invalid token"}`);
+          finish(false);
+          break;
+        case "result": {
+          const pending = message.id !== undefined ? wsPending.get(message.id) : undefined;
+          if (!pending) break;
+          wsPending.delete(message.id!);
+          if (message.success) {
+            pending.resolve(message.result);
+          } else {
+            pending.reject(new Error(message.error?.message || "Unknown WebSocket error"));
+          }
+          break;
+        }
+        case "event":
+          if (message.event?.event_type === "state_changed") {
+            handleStateChanged(message.event.data);
+          }
+          break;
+      }
+    });
+
+    socket.on("error", (error) => {
+      console.error(`Home Assistant WebSocket error: ${error.message}`);
+      finish(false);
+    });
+
+    socket.on("close", () => {
+      finish(false);
+      if (wsSocket !== socket) return; // Replaced by resetWebSocket()
+
+      const wasReady = wsReady;
+      wsSocket = null;
+      wsReady = false;
+      stateCache.clear();
+      for (const pending of wsPending.values()) {
+        pending.reject(new Error("WebSocket connection closed"));
+      }
+      wsPending.clear();
+
+      // Connection dropped after working - try to get the live cache back
+      if (wasReady) {
+        wsRetryAfter = 0;
+        setTimeout(() => void connectWebSocket(), WS_RECONNECT_DELAY_MS).unref();
+      }
+    });
+  });
+
+  return wsConnecting;
+}
+
+// Drop the current connection (e.g. after the configuration changed)
+function resetWebSocket(): void {
+  const socket = wsSocket;
+  wsSocket = null;
+  wsConnecting = null;
+  wsReady = false;
+  wsRetryAfter = 0;
+  stateCache.clear();
+  registryCache = null;
+  for (const pending of wsPending.values()) {
+    pending.reject(new Error("WebSocket connection reset"));
+  }
+  wsPending.clear();
+  socket?.terminate();
+}
+
+// Wait until a light reaches a state matching the predicate
+// Uses state_changed events when connected, otherwise polls over REST
+async function waitForLightState(
+  entityId: string,
+  predicate: (state: LightState) => boolean,
+  timeoutMs: number
+): Promise<LightState | null> {
+  if (!(await connectWebSocket())) {
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+      const state = await getLight(entityId);
+      if (predicate(state)) return state;
+      await delay(STATE_POLL_INTERVAL_MS);
+    }
+    return null;
+  }
+
+  const current = stateCache.get(entityId) as LightState | undefined;
+  if (current && predicate(current)) return current;
+
+  return new Promise((resolve) => {
+    const listener: StateChangeListener = (changedId, newState) => {
+      if (changedId !== entityId || !newState || !predicate(newState)) return;
+      clearTimeout(timer);
+      stateChangeListeners.delete(listener);
+      resolve(newState);
+    };
+    const timer = setTimeout(() => {
+      stateChangeListeners.delete(listener);
+      resolve(null);
+    }, timeoutMs);
+    stateChangeListeners.add(listener);
+  });
+}
+
 async function getLights(): Promise<LightState[]> {
+  if (await connectWebSocket()) {
+    return [...stateCache.values()].filter((s): s is LightState => s.entity_id.startsWith("light."));
+  }
+
   const response = await haFetch("/api/states");
   if (!response.ok) {
     throw new Error(`Failed to fetch states: ${response.statusText}`);
@@ -424,6 +797,12 @@ async function getLights(): Promise<LightState[]> {
 }
 
 async function getLight(entityId: string): Promise<LightState> {
+  validateEntityId(entityId); // Goes into the REST path below
+  if (await connectWebSocket()) {
+    const cached = stateCache.get(entityId);
+    if (cached) return cached as LightState;
+  }
+
   const response = await haFetch(`/api/states/${entityId}`);
   if (!response.ok) {
     throw new Error(`Failed to fetch light state: ${response.statusText}`);
@@ -432,6 +811,10 @@ async function getLight(entityId: string): Promise<LightState> {
 }
 
 async function getScenes(): Promise<HAScene[]> {
+  if (await connectWebSocket()) {
+    return [...stateCache.values()].filter((s): s is HAScene => s.entity_id.startsWith("scene."));
+  }
+
   const response = await haFetch("/api/states");
   if (!response.ok) {
     throw new Error(`Failed to fetch states: ${response.statusText}`);
@@ -440,8 +823,20 @@ async function getScenes(): Promise<HAScene[]> {
   return states.filter((s) => s.entity_id.startsWith("scene."));
 }
 
+// Scene config IDs are UUIDs or slugs - anything else could walk to another HA endpoint (e.g. "../../states")
+function isValidSceneConfigId(sceneId: string): boolean {
+  return /^[\w-]+$/.test(sceneId);
+}
+
+function sceneConfigPath(sceneId: string): string {
+  if (!isValidSceneConfigId(sceneId)) {
+    throw new Error(`Invalid scene config ID: ${sceneId}`);
+  }
+  return `/api/config/scene/config/${sceneId}`;
+}
+
 async function getSceneConfig(sceneId: string): Promise<SceneConfig | null> {
-  const response = await haFetch(`/api/config/scene/config/${sceneId}`);
+  const response = await haFetch(sceneConfigPath(sceneId));
   if (!response.ok) {
     if (response.status === 404) {
       return null;
@@ -452,7 +847,7 @@ async function getSceneConfig(sceneId: string): Promise<SceneConfig | null> {
 }
 
 async function saveSceneConfig(sceneConfig: SceneConfig): Promise<void> {
-  const response = await haFetch(`/api/config/scene/config/${sceneConfig.id}`, {
+  const response = await haFetch(sceneConfigPath(sceneConfig.id), {
     method: "POST",
     body: JSON.stringify(sceneConfig),
   });
@@ -469,7 +864,7 @@ async function saveSceneConfig(sceneConfig: SceneConfig): Promise<void> {
 }
 
 async function deleteSceneConfig(sceneId: string): Promise<void> {
-  const response = await haFetch(`/api/config/scene/config/${sceneId}`, {
+  const response = await haFetch(sceneConfigPath(sceneId), {
     method: "DELETE",
   });
   if (!response.ok) {
@@ -496,6 +891,28 @@ function withTimeout<T>(promise: Promise<T>, ms: number, errorMsg: string): Prom
 
 const SERVICE_TIMEOUT_MS = 5000; // 5 seconds per light operation
 
+async function callServiceRest(domain: string, service: string, data: Record<string, unknown>): Promise<unknown> {
+  const response = await haFetch(`/api/services/${domain}/${service}`, {
+    method: "POST",
+    body: JSON.stringify(data),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to call service ${domain}.${service}: ${response.statusText} - ${errorText}`);
+  }
+  return response.json();
+}
+
+async function callServiceWs(domain: string, service: string, data: Record<string, unknown>): Promise<unknown> {
+  try {
+    return await sendWsCommand({ type: "call_service", domain, service, service_data: data });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to call service ${domain}.${service}: ${message}`);
+  }
+}
+
 async function callService(
   domain: string,
   service: string,
@@ -505,20 +922,12 @@ async function callService(
   const entityInfo = data.entity_id ? ` (${data.entity_id})` : '';
 
   try {
-    const response = await withTimeout(
-      haFetch(`/api/services/${domain}/${service}`, {
-        method: "POST",
-        body: JSON.stringify(data),
-      }),
-      timeoutMs,
-      `Timeout calling ${domain}.${service}${entityInfo}`
-    );
+    // Prefer the open WebSocket, fall back to REST
+    const request = (await connectWebSocket())
+      ? callServiceWs(domain, service, data)
+      : callServiceRest(domain, service, data);
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Failed to call service ${domain}.${service}: ${response.statusText} - ${errorText}`);
-    }
-    return response.json();
+    return await withTimeout(request, timeoutMs, `Timeout calling ${domain}.${service}${entityInfo}`);
   } catch (error) {
     // Log timeout/errors but don't fail the entire operation
     const message = error instanceof Error ? error.message : String(error);
@@ -562,18 +971,34 @@ const tools: Tool[] = [
           type: "string",
           description: "Optional filter to search lights by name or entity_id",
         },
+        area: {
+          type: "string",
+          description: "Optional: only lights in this Home Assistant area (name or area_id, e.g. 'Living Room')",
+        },
+        floor: {
+          type: "string",
+          description: "Optional: only lights on this Home Assistant floor (name or floor_id, e.g. 'upstairs')",
+        },
       },
     },
   },
   {
     name: "scene_adjust_light",
-    description: "PREFERRED for controlling lights. Turn on/off, set brightness (0-100%), RGB color, color temperature (Kelvin), or effects. IMPORTANT: This only changes the light's current state - it does NOT save to any scene. REQUIRES user_confirmed=true - user must explicitly request the change.",
+    description: "PREFERRED for controlling lights. Turn on/off, set brightness (0-100%), color (RGB, hs, xy, RGBW, RGBWW or a CSS color name like 'teal'), color temperature (Kelvin), or effects. Brightness and color temperature can also be changed relatively (brightness_step_pct, color_temp_kelvin_step) - no need to read the current state first. Target one light with entity_id, or all lights in an area/floor. IMPORTANT: This only changes the light's current state - it does NOT save to any scene. REQUIRES user_confirmed=true - user must explicitly request the change.",
     inputSchema: {
       type: "object",
       properties: {
         entity_id: {
           type: "string",
-          description: "The entity_id of the light (e.g., light.living_room)",
+          description: "The entity_id of the light (e.g., light.living_room). Required unless area or floor is given.",
+        },
+        area: {
+          type: "string",
+          description: "Apply to all lights in this Home Assistant area (name or area_id)",
+        },
+        floor: {
+          type: "string",
+          description: "Apply to all lights on this Home Assistant floor (name or floor_id)",
         },
         state: {
           type: "string",
@@ -599,6 +1024,38 @@ const tools: Tool[] = [
           maxItems: 3,
           description: "RGB color as [red, green, blue] (0-255 each)",
         },
+        hs_color: {
+          type: "array",
+          items: { type: "number" },
+          minItems: 2,
+          maxItems: 2,
+          description: "Hue/saturation color as [hue 0-360, saturation 0-100]",
+        },
+        xy_color: {
+          type: "array",
+          items: { type: "number" },
+          minItems: 2,
+          maxItems: 2,
+          description: "CIE xy color as [x, y] (0-1 each), native for Hue/Zigbee bulbs",
+        },
+        rgbw_color: {
+          type: "array",
+          items: { type: "number" },
+          minItems: 4,
+          maxItems: 4,
+          description: "RGBW color as [red, green, blue, white] (0-255 each)",
+        },
+        rgbww_color: {
+          type: "array",
+          items: { type: "number" },
+          minItems: 5,
+          maxItems: 5,
+          description: "RGBWW color as [red, green, blue, cold white, warm white] (0-255 each)",
+        },
+        color_name: {
+          type: "string",
+          description: "CSS color name (e.g., 'teal', 'orange', 'lavender'). Use only one color setting per call.",
+        },
         color_temp_kelvin: {
           type: "number",
           description: "Color temperature in Kelvin (e.g., 2700 for warm, 6500 for cool)",
@@ -607,18 +1064,154 @@ const tools: Tool[] = [
           type: "string",
           description: "Light effect (e.g., 'colorloop', 'off'). Use scene_show_lights to see available effects.",
         },
-        user_confirmed: {
-          type: "boolean",
-          description: "REQUIRED: Must be true to confirm user explicitly requested this light change. Without confirmation, operation is blocked.",
+        transition: {
+          type: "number",
+          minimum: 0,
+          description: "Fade duration in seconds (e.g., 2 for a slow fade)",
         },
-      },
-      required: ["entity_id", "user_confirmed"],
+        brightness_step_pct: {
+          type: "number",
+          minimum: -100,
+          maximum: 100,
+          description: "Relative brightness change in percentage points (e.g., -20 = dimmer, 10 = brighter; 'a bit dimmer' ≈ -15). Dimming to 0% or below turns the light off, a light that is off stays off when dimmed. Cannot be combined with brightness/brightness_pct.",
+        },
+        color_temp_kelvin_step: {
+          type: "number",
+          description: "Relative color temperature change in Kelvin: negative = warmer, positive = cooler (e.g., -500 for 'warmer by 500K'). Clamped to the light's supported range. Light must be on in white mode.",
+        },
+        user_confirmed: {
+          type: "boolean",
+          description: "REQUIRED: Must be true to confirm user explicitly requested this light change. Without confirmation, operation is blocked.",
+        },
+      },
+      required: ["user_confirmed"],
+    },
+  },
+  {
+    name: "scene_adjust_lights",
+    description: "Adjust SEVERAL lights in one call. Either give entity_ids with one shared setting (e.g. dim five lamps to 30%), or a lights map of entity_id → settings for per-light values. Uses the same IKEA handling as scene_adjust_light. Returns a per-light success/timeout report. IMPORTANT: This only changes current light states - it does NOT save to any scene. REQUIRES user_confirmed=true - user must explicitly request the change.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        entity_ids: {
+          type: "array",
+          items: { type: "string" },
+          description: "Lights that get the shared settings given at the top level (state, brightness, ...)",
+        },
+        lights: {
+          type: "object",
+          description: "Per-light settings: { \"light.kitchen\": { \"brightness_pct\": 30 }, \"light.desk\": { \"state\": \"off\" } }. Each entry accepts the same settings as the shared ones and overrides them.",
+          additionalProperties: {
+            type: "object",
+            properties: {
+              state: { type: "string", enum: ["on", "off"] },
+              brightness: { type: "number", minimum: 0, maximum: 255 },
+              brightness_pct: { type: "number", minimum: 0, maximum: 100 },
+              rgb_color: { type: "array", items: { type: "number" }, minItems: 3, maxItems: 3 },
+              hs_color: { type: "array", items: { type: "number" }, minItems: 2, maxItems: 2 },
+              xy_color: { type: "array", items: { type: "number" }, minItems: 2, maxItems: 2 },
+              rgbw_color: { type: "array", items: { type: "number" }, minItems: 4, maxItems: 4 },
+              rgbww_color: { type: "array", items: { type: "number" }, minItems: 5, maxItems: 5 },
+              color_name: { type: "string" },
+              color_temp_kelvin: { type: "number" },
+              effect: { type: "string" },
+              transition: { type: "number", minimum: 0 },
+              brightness_step_pct: { type: "number", minimum: -100, maximum: 100 },
+              color_temp_kelvin_step: { type: "number" },
+            },
+          },
+        },
+        state: {
+          type: "string",
+          enum: ["on", "off"],
+          description: "Shared: turn the lights on or off",
+        },
+        brightness: {
+          type: "number",
+          minimum: 0,
+          maximum: 255,
+          description: "Shared: brightness level (0-255)",
+        },
+        brightness_pct: {
+          type: "number",
+          minimum: 0,
+          maximum: 100,
+          description: "Shared: brightness as percentage (0-100)",
+        },
+        rgb_color: {
+          type: "array",
+          items: { type: "number" },
+          minItems: 3,
+          maxItems: 3,
+          description: "Shared: RGB color as [red, green, blue] (0-255 each)",
+        },
+        hs_color: {
+          type: "array",
+          items: { type: "number" },
+          minItems: 2,
+          maxItems: 2,
+          description: "Shared: hue/saturation color as [hue 0-360, saturation 0-100]",
+        },
+        xy_color: {
+          type: "array",
+          items: { type: "number" },
+          minItems: 2,
+          maxItems: 2,
+          description: "Shared: CIE xy color as [x, y] (0-1 each)",
+        },
+        rgbw_color: {
+          type: "array",
+          items: { type: "number" },
+          minItems: 4,
+          maxItems: 4,
+          description: "Shared: RGBW color as [red, green, blue, white] (0-255 each)",
+        },
+        rgbww_color: {
+          type: "array",
+          items: { type: "number" },
+          minItems: 5,
+          maxItems: 5,
+          description: "Shared: RGBWW color as [red, green, blue, cold white, warm white] (0-255 each)",
+        },
+        color_name: {
+          type: "string",
+          description: "Shared: CSS color name (e.g., 'teal')",
+        },
+        color_temp_kelvin: {
+          type: "number",
+          description: "Shared: color temperature in Kelvin (e.g., 2700 for warm, 6500 for cool)",
+        },
+        effect: {
+          type: "string",
+          description: "Shared: light effect (e.g., 'colorloop', 'off')",
+        },
+        transition: {
+          type: "number",
+          minimum: 0,
+          description: "Shared: fade duration in seconds",
+        },
+        brightness_step_pct: {
+          type: "number",
+          minimum: -100,
+          maximum: 100,
+          description: "Shared: relative brightness change in percentage points (e.g., -20 = dimmer). Applied to each light's own current brightness, lights dimmed to 0% or below are turned off.",
+        },
+        color_temp_kelvin_step: {
+          type: "number",
+          description: "Shared: relative color temperature change in Kelvin (negative = warmer). Clamped to each light's supported range.",
+        },
+        user_confirmed: {
+          type: "boolean",
+          description: "REQUIRED: Must be true to confirm user explicitly requested these light changes. Without confirmation, operation is blocked.",
+        },
+      },
+      required: ["user_confirmed"],
     },
   },
   {
     name: "scene_create",
     description:
-      "Create a NEW scene in Home Assistant. ONLY call when user EXPLICITLY asks to create/save a NEW scene. Before calling: 1) Show current lights with scene_show_lights, 2) Ask user for mode: 'exclusive' or 'additive'. Do NOT call this to update existing scenes - use scene_update for that.",
+      "Create a NEW scene in Home Assistant. ONLY call when user EXPLICITLY asks to create/save a NEW scene. The mode must come from the user. Do NOT call this to update existing scenes - use scene_update for that.",
     inputSchema: {
       type: "object",
       properties: {
@@ -636,10 +1229,23 @@ const tools: Tool[] = [
           items: { type: "string" },
           description: "List of entity IDs to capture. If not provided, captures all lights that are currently on.",
         },
+        area: {
+          type: "string",
+          description: "Capture all lights in this Home Assistant area (name or area_id), e.g. 'Living Room'",
+        },
+        floor: {
+          type: "string",
+          description: "Capture all lights on this Home Assistant floor (name or floor_id)",
+        },
         icon: {
           type: "string",
           description: "Optional icon for the scene (e.g., 'mdi:lamp')",
         },
+        transition: {
+          type: "number",
+          minimum: 0,
+          description: "Optional default fade duration in seconds used when the scene is activated",
+        },
       },
       required: ["name", "mode"],
     },
@@ -654,7 +1260,7 @@ const tools: Tool[] = [
   },
   {
     name: "scene_activate",
-    description: "Activate a scene in Home Assistant. REQUIRES user_confirmed=true - user must explicitly request scene activation.",
+    description: "Activate a scene in Home Assistant. Verifies every light afterwards, retries lights that drifted and returns a report of matched, corrected and failed lights. Use dry_run=true to preview the plan first. REQUIRES user_confirmed=true unless dry_run=true - user must explicitly request scene activation.",
     inputSchema: {
       type: "object",
       properties: {
@@ -662,12 +1268,21 @@ const tools: Tool[] = [
           type: "string",
           description: "The entity_id of the scene (e.g., scene.evening_mood) or just the scene name",
         },
+        transition: {
+          type: "number",
+          minimum: 0,
+          description: "Fade duration in seconds. Overrides the scene's default transition.",
+        },
+        dry_run: {
+          type: "boolean",
+          description: "If true, returns the service calls and the lights that would go off without changing anything. Does not need user_confirmed.",
+        },
         user_confirmed: {
           type: "boolean",
-          description: "REQUIRED: Must be true to confirm user explicitly requested this scene activation. Without confirmation, operation is blocked.",
+          description: "REQUIRED unless dry_run: Must be true to confirm user explicitly requested this scene activation. Without confirmation, operation is blocked.",
         },
       },
-      required: ["entity_id", "user_confirmed"],
+      required: ["entity_id"],
     },
   },
   {
@@ -686,7 +1301,7 @@ const tools: Tool[] = [
   },
   {
     name: "scene_update",
-    description: "Update an existing scene with current light states. ONLY call this when user EXPLICITLY asks to save/update a scene. Do NOT call automatically after adjusting lights.",
+    description: "Update an existing scene with current light states, or remove lights from it. Returns a per-light diff. ONLY call this when user EXPLICITLY asks to save/update a scene. Do NOT call automatically after adjusting lights.",
     inputSchema: {
       type: "object",
       properties: {
@@ -697,33 +1312,156 @@ const tools: Tool[] = [
         entity_ids: {
           type: "array",
           items: { type: "string" },
-          description: "List of entity IDs to capture. If not provided, captures all lights that are currently on.",
+          description: "List of entity IDs to capture (merge/replace) or to drop (remove). If not provided, captures all lights that are currently on.",
+        },
+        strategy: {
+          type: "string",
+          enum: ["merge", "replace", "remove"],
+          description: "'merge' (default) updates/adds captured lights and keeps the rest, 'replace' makes the scene exactly the captured lights, 'remove' drops entity_ids from the scene without capturing anything.",
+        },
+      },
+      required: ["entity_id"],
+    },
+  },
+  {
+    name: "scene_edit",
+    description: "Edit a scene config directly without changing any lights: set brightness/color of lights in the scene, add or remove lights, rename, change icon, mode or default transition. ONLY call this when user EXPLICITLY asks to change a scene.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        entity_id: {
+          type: "string",
+          description: "The entity_id of the scene to edit (e.g., scene.evening_mood) or just the scene name",
+        },
+        lights: {
+          type: "object",
+          description: "Per-light changes keyed by entity_id, e.g. {\"light.desk\": {\"brightness_pct\": 40, \"color_temp_kelvin\": 2700}}. Lights not yet in the scene are added. Setting brightness or color implies state on.",
+          additionalProperties: {
+            type: "object",
+            properties: {
+              state: { type: "string", enum: ["on", "off"] },
+              brightness: { type: "number", minimum: 0, maximum: 255 },
+              brightness_pct: { type: "number", minimum: 0, maximum: 100 },
+              rgb_color: { type: "array", items: { type: "number" }, minItems: 3, maxItems: 3 },
+              hs_color: { type: "array", items: { type: "number" }, minItems: 2, maxItems: 2 },
+              xy_color: { type: "array", items: { type: "number" }, minItems: 2, maxItems: 2 },
+              rgbw_color: { type: "array", items: { type: "number" }, minItems: 4, maxItems: 4 },
+              rgbww_color: { type: "array", items: { type: "number" }, minItems: 5, maxItems: 5 },
+              color_temp_kelvin: { type: "number" },
+              effect: { type: "string" },
+            },
+          },
+        },
+        remove: {
+          type: "array",
+          items: { type: "string" },
+          description: "Entity IDs of lights to remove from the scene",
+        },
+        name: {
+          type: "string",
+          description: "New scene name",
+        },
+        icon: {
+          type: "string",
+          description: "New icon (e.g., mdi:sofa)",
+        },
+        mode: {
+          type: "string",
+          enum: ["exclusive", "additive"],
+          description: "New scene mode",
+        },
+        transition: {
+          type: "number",
+          minimum: 0,
+          description: "New default transition in seconds, 0 removes it",
+        },
+        dry_run: {
+          type: "boolean",
+          description: "If true, returns the changes and per-light diff without saving.",
         },
       },
       required: ["entity_id"],
     },
   },
+  {
+    name: "scene_clone",
+    description: "Copy an existing scene under a new name, e.g. 'Movie' → 'Movie (dim)'. Optionally scale brightness, shift color temperature, keep only some lights or switch mode. Lights are not changed.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        entity_id: {
+          type: "string",
+          description: "The entity_id of the scene to copy (e.g., scene.movie) or just the scene name",
+        },
+        name: {
+          type: "string",
+          description: "Name for the new scene",
+        },
+        entity_ids: {
+          type: "array",
+          items: { type: "string" },
+          description: "Only copy these lights. Default: all lights in the scene.",
+        },
+        brightness_scale_pct: {
+          type: "number",
+          minimum: 1,
+          maximum: 1000,
+          description: "Scale every brightness by this percentage (e.g., 50 = half as bright). Clamped to 1-255.",
+        },
+        color_temp_shift_kelvin: {
+          type: "number",
+          description: "Shift color temperature of white lights by this many Kelvin (negative = warmer). Clamped to each light's range.",
+        },
+        mode: {
+          type: "string",
+          enum: ["exclusive", "additive"],
+          description: "Mode for the new scene. Default: same as the source scene.",
+        },
+        icon: {
+          type: "string",
+          description: "Icon for the new scene. Default: same as the source scene.",
+        },
+      },
+      required: ["entity_id", "name"],
+    },
+  },
   {
     name: "scene_blackout",
-    description: "Turn off ALL lights. Optionally create/update a 'Blackout' scene. REQUIRES user_confirmed=true - user must explicitly request blackout.",
+    description: "Turn off ALL lights. Optionally create/update a 'Blackout' scene. REQUIRES user_confirmed=true unless dry_run=true - user must explicitly request blackout.",
     inputSchema: {
       type: "object",
       properties: {
         exclude: {
           type: "array",
           items: { type: "string" },
-          description: "List of entity_ids or partial names to exclude from blackout (e.g., ['balcony', 'light.outdoor']). These lights won't be turned off.",
+          description: "List of entity_ids or partial names to exclude from blackout (e.g., ['balcony', 'light.outdoor']). Use 'area:<name>', 'floor:<name>' or 'label:<name>' to exclude by Home Assistant area, floor or label (e.g., ['area:bedroom']). These lights won't be turned off.",
+        },
+        area: {
+          type: "string",
+          description: "Only turn off lights in this Home Assistant area (name or area_id)",
+        },
+        floor: {
+          type: "string",
+          description: "Only turn off lights on this Home Assistant floor (name or floor_id), e.g. 'upstairs'",
         },
         create_scene: {
           type: "boolean",
           description: "If true, creates or updates a 'Blackout' scene with all lights set to off. Default: false.",
         },
+        transition: {
+          type: "number",
+          minimum: 0,
+          description: "Fade-out duration in seconds",
+        },
+        dry_run: {
+          type: "boolean",
+          description: "If true, lists the lights that would be turned off and the Blackout scene diff (with create_scene) without changing anything. Does not need user_confirmed.",
+        },
         user_confirmed: {
           type: "boolean",
-          description: "REQUIRED: Must be true to confirm user explicitly requested blackout. Without confirmation, operation is blocked.",
+          description: "REQUIRED unless dry_run: Must be true to confirm user explicitly requested blackout. Without confirmation, operation is blocked.",
         },
       },
-      required: ["user_confirmed"],
     },
   },
   {
@@ -763,6 +1501,10 @@ const tools: Tool[] = [
           items: { type: "string" },
           description: "For 'test_scene': list of issues reported by user (e.g., ['Studio 3 stayed on', 'Kitchen too bright']).",
         },
+        dry_run: {
+          type: "boolean",
+          description: "For 'fix_all' and 'restore_from_backup': return the scene configs that would be rewritten, with per-light diffs, without saving anything.",
+        },
         user_confirmed: {
           type: "boolean",
           description: "REQUIRED for test_scene action: Must be true to confirm user explicitly allowed scene activation test. Without confirmation, test_scene is blocked.",
@@ -771,6 +1513,68 @@ const tools: Tool[] = [
       required: ["action"],
     },
   },
+  {
+    name: "scene_trash",
+    description: "List scenes deleted with scene_delete whose backups are still kept (soft-deleted, removed automatically after the retention period), or purge them for good. Purging requires user_confirmed=true.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        action: {
+          type: "string",
+          enum: ["list", "purge"],
+          description: "'list' (default) shows deleted scenes with deletion and expiry times, 'purge' removes their backups permanently.",
+        },
+        scene: {
+          type: "string",
+          description: "Scene ID or name to purge. If not provided, purge applies to all deleted scenes.",
+        },
+        user_confirmed: {
+          type: "boolean",
+          description: "Must be true to actually purge. Without it, purge only returns what would be removed.",
+        },
+      },
+    },
+  },
+  {
+    name: "scene_backup_export",
+    description: "Write a full backup archive of this server's local data - scene backups (including deleted ones), change history, undo states and the Home Assistant URL - to one file, e.g. to move the setup to a new machine. The token is never included.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        file: {
+          type: "string",
+          description: "Archive file name inside ~/.config/ha-mcp-server/backups/ (default: ha-mcp-server-backup-<time>.json)",
+        },
+        user_confirmed: {
+          type: "boolean",
+          description: "Must be true to replace an existing archive with the same name. New files don't need it.",
+        },
+      },
+    },
+  },
+  {
+    name: "scene_backup_restore",
+    description: "Restore a scene_backup_export archive into the local backup store. Checks the archive version, then merges with (default) or replaces the local data. Does not change Home Assistant - use scene_fix restore_from_backup afterwards. Returns a preview unless user_confirmed=true.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        file: {
+          type: "string",
+          description: "File name of the backup archive inside ~/.config/ha-mcp-server/backups/",
+        },
+        strategy: {
+          type: "string",
+          enum: ["merge", "replace"],
+          description: "'merge' (default) keeps the more recently changed copy of each scene and combines histories, 'replace' makes the local store exactly the archive",
+        },
+        user_confirmed: {
+          type: "boolean",
+          description: "Must be true to actually restore. Without it, only a preview of the changes is returned.",
+        },
+      },
+      required: ["file"],
+    },
+  },
   {
     name: "scene_sync",
     description: "Sync local backup with Home Assistant. Fetches all scenes from HA and updates local backup to match. Useful for ensuring backup is current before making changes.",
@@ -796,62 +1600,249 @@ const tools: Tool[] = [
       },
     },
   },
-];
-
-// Helper to generate unique ID (UUID v4)
-function generateSceneId(): string {
-  // Generate UUID v4 without external dependencies
-  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
-    const r = Math.random() * 16 | 0;
-    const v = c === 'x' ? r : (r & 0x3 | 0x8);
-    return v.toString(16);
-  });
-}
-
-// Input validation helpers
-function isValidEntityId(entityId: string): boolean {
-  // Entity IDs should only contain alphanumeric, underscore, and dot
-  // Format: domain.object_id (e.g., light.living_room)
-  return /^[a-z_]+\.[a-z0-9_]+$/i.test(entityId);
-}
-
-function validateEntityId(entityId: string): void {
-  if (!isValidEntityId(entityId)) {
-    throw new Error(`Invalid entity_id format: ${entityId}`);
-  }
-}
-
-// Helper to convert scene name to title case (first letter of each word uppercase)
-function toTitleCase(name: string): string {
-  if (!name) return name;
-  return name
-    .toLowerCase()
-    .split(' ')
-    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-    .join(' ');
-}
-
-// Attributes to copy for scene config
-const SCENE_ATTRIBUTES = [
-  // Dynamic state attributes
-  'brightness', 'color_temp', 'color_temp_kelvin', 'rgb_color',
-  'hs_color', 'xy_color', 'color_mode', 'effect',
-  // Static attributes needed for scene restore
-  'min_color_temp_kelvin', 'max_color_temp_kelvin', 'min_mireds', 'max_mireds',
-  'effect_list', 'supported_color_modes', 'supported_features',
-  'friendly_name', 'off_with_transition', 'off_brightness'
-] as const;
-
-// Helper to build entity config from current state
-function buildEntityConfig(light: LightState): Record<string, unknown> {
-  const attrs = light.attributes as Record<string, unknown>;
-  const entityConfig: Record<string, unknown> = { state: light.state };
-
-  for (const key of SCENE_ATTRIBUTES) {
-    const value = attrs[key];
-    // Only include non-null, non-undefined values
-    // Home Assistant doesn't accept null values in scene config
-    if (value !== undefined && value !== null) {
+  {
+    name: "scene_diff",
+    description: "Show per-light differences (state, brightness, color, effect) between a scene and another scene, one of its history snapshots, or the current live light state (default). Read-only.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        entity_id: {
+          type: "string",
+          description: "The scene to compare (e.g., scene.movie) or just the scene name",
+        },
+        other_scene: {
+          type: "string",
+          description: "Compare against this scene instead of live state",
+        },
+        snapshot: {
+          type: ["number", "string"],
+          description: "Compare against one of the scene's history snapshots: index (0 = newest, see scene_history) or timestamp (e.g. '2026-05-01T18:30')",
+        },
+      },
+      required: ["entity_id"],
+    },
+  },
+  {
+    name: "scene_restore_snapshot",
+    description: "Restore a scene from one of its history snapshots (see scene_history), including scenes that were deleted. Recreates the scene with its original ID and mode. Returns a preview unless user_confirmed=true.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        scene: {
+          type: "string",
+          description: "Scene ID, entity_id or name (deleted scenes: the name shown in scene_history)",
+        },
+        snapshot: {
+          type: ["number", "string"],
+          description: "Snapshot index (0 = newest, default) or timestamp (e.g. '2026-05-01T18:30')",
+        },
+        name: {
+          type: "string",
+          description: "Restore under this name instead of the snapshot's, e.g. when another scene now has that name",
+        },
+        user_confirmed: {
+          type: "boolean",
+          description: "Must be true to actually restore. Without it, only a preview with the per-light diff is returned. If another scene has the same name, it is deleted and replaced (its backup and history are kept).",
+        },
+      },
+      required: ["scene"],
+    },
+  },
+  {
+    name: "scene_resolve_conflict",
+    description: "Three-way merge a scene whose Home Assistant config changed since this server last saw it (e.g. edited by another instance or the HA UI). Lights and attributes changed on only one side merge automatically; overlapping changes are reported per light and attribute. Pick 'ours' (local backup) or 'theirs' (Home Assistant) per light, then save with user_confirmed=true.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        entity_id: {
+          type: "string",
+          description: "Scene entity_id or name",
+        },
+        resolutions: {
+          type: "object",
+          additionalProperties: { type: "string", enum: ["ours", "theirs"] },
+          description: "Side per conflicting light, e.g. {\"light.kitchen\": \"ours\"}. Use the key \"mode\" for a mode conflict.",
+        },
+        default: {
+          type: "string",
+          enum: ["ours", "theirs"],
+          description: "Side for conflicts not listed in resolutions",
+        },
+        user_confirmed: {
+          type: "boolean",
+          description: "Must be true to save. Without it, or with unresolved conflicts, only the merge report is returned.",
+        },
+      },
+      required: ["entity_id"],
+    },
+  },
+  {
+    name: "scene_export",
+    description: "Export scenes as Home Assistant scenes.yaml or JSON (with this server's mode metadata), e.g. to move scenes between HA instances or keep them in git. Writes to a file or returns the text.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        scenes: {
+          type: "array",
+          items: { type: "string" },
+          description: "Scene entity_ids or names to export. If not provided, exports all scenes.",
+        },
+        format: {
+          type: "string",
+          enum: ["yaml", "json"],
+          description: "'yaml' (default) for a scenes.yaml list, 'json' for a versioned export file",
+        },
+        file: {
+          type: "string",
+          description: "File name to write the export to, inside ~/.config/ha-mcp-server/exports/. If not provided, the export is returned as text.",
+        },
+        user_confirmed: {
+          type: "boolean",
+          description: "Must be true to write the file. Without it, only the target path is returned.",
+        },
+      },
+    },
+  },
+  {
+    name: "scene_import",
+    description: "Import scenes from scene_export output or an HA scenes.yaml (YAML or JSON). Validates entity IDs, maps lights that don't exist here by friendly name and creates the scenes in HA with a local backup.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        content: {
+          type: "string",
+          description: "Scene file content (YAML or JSON)",
+        },
+        file: {
+          type: "string",
+          description: "File name of a scene file in ~/.config/ha-mcp-server/exports/ to import (alternative to content)",
+        },
+        overwrite: {
+          type: "boolean",
+          description: "Replace scenes that already exist with the same ID or name (default: false, they are skipped)",
+        },
+        dry_run: {
+          type: "boolean",
+          description: "Return what would be imported, with light mappings and per-light diffs, without saving anything",
+        },
+      },
+    },
+  },
+  {
+    name: "scene_undo",
+    description: "Undo recent light changes (scene_activate, scene_blackout, scene_adjust_light, scene_adjust_lights) by restoring the light states saved before them. The last 10 actions are kept. REQUIRES user_confirmed=true unless dry_run=true - user must explicitly request the undo.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        steps: {
+          type: "number",
+          minimum: 1,
+          maximum: 10,
+          description: "How many recent actions to undo (default: 1). Lights return to their state before the oldest of them.",
+        },
+        dry_run: {
+          type: "boolean",
+          description: "If true, shows which actions would be undone and the service calls without changing anything. Does not need user_confirmed.",
+        },
+        user_confirmed: {
+          type: "boolean",
+          description: "REQUIRED unless dry_run: Must be true to confirm user explicitly requested the undo. Without confirmation, operation is blocked.",
+        },
+      },
+    },
+  },
+];
+
+// Helper to generate unique ID (UUID v4)
+function generateSceneId(): string {
+  // Generate UUID v4 without external dependencies
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+    const r = Math.random() * 16 | 0;
+    const v = c === 'x' ? r : (r & 0x3 | 0x8);
+    return v.toString(16);
+  });
+}
+
+// Input validation helpers
+function isValidEntityId(entityId: string): boolean {
+  // Entity IDs should only contain alphanumeric, underscore, and dot
+  // Format: domain.object_id (e.g., light.living_room)
+  return /^[a-z_]+\.[a-z0-9_]+$/i.test(entityId);
+}
+
+function validateEntityId(entityId: string): void {
+  if (!isValidEntityId(entityId)) {
+    throw new Error(`Invalid entity_id format: ${entityId}`);
+  }
+}
+
+// Helper to convert scene name to title case (first letter of each word uppercase)
+function toTitleCase(name: string): string {
+  if (!name) return name;
+  return name
+    .toLowerCase()
+    .split(' ')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+// Attributes to copy for scene config
+const SCENE_ATTRIBUTES = [
+  // Dynamic state attributes
+  'brightness', 'color_temp', 'color_temp_kelvin', 'rgb_color',
+  'hs_color', 'xy_color', 'rgbw_color', 'rgbww_color', 'color_mode', 'effect',
+  // Static attributes needed for scene restore
+  'min_color_temp_kelvin', 'max_color_temp_kelvin', 'min_mireds', 'max_mireds',
+  'effect_list', 'supported_color_modes', 'supported_features',
+  'friendly_name', 'off_with_transition'
+] as const;
+
+// Color settings accepted by light.turn_on (only one per call)
+const LIGHT_COLOR_SETTINGS = [
+  'rgb_color', 'hs_color', 'xy_color', 'rgbw_color', 'rgbww_color', 'color_name', 'color_temp_kelvin',
+] as const;
+
+// Scene attribute that restores each color mode natively
+const COLOR_MODE_ATTRIBUTES: Record<string, string[]> = {
+  color_temp: ['color_temp_kelvin', 'color_temp'],
+  hs: ['hs_color'],
+  xy: ['xy_color'],
+  rgb: ['rgb_color'],
+  rgbw: ['rgbw_color'],
+  rgbww: ['rgbww_color'],
+};
+
+// Pick the color attribute to restore from a scene entity config
+// Uses the light's own color_mode so xy/hs/rgbw lights get their exact color back,
+// otherwise falls back to rgb_color, then color temperature
+// White mode has no color attribute (the reported rgb is only an approximation): light.turn_on
+// switches to it with white set to the brightness
+function getSceneColorData(lightConfig: Record<string, unknown>): Record<string, unknown> {
+  const mode = lightConfig.color_mode as string | undefined;
+  if (mode === "white") {
+    return { white: lightConfig.brightness ?? 255 };
+  }
+  const preferred = (mode && COLOR_MODE_ATTRIBUTES[mode]) || [];
+  const fallback = ['rgb_color', 'color_temp_kelvin', 'color_temp', 'hs_color', 'xy_color', 'rgbw_color', 'rgbww_color'];
+
+  for (const key of [...preferred, ...fallback]) {
+    if (lightConfig[key] !== undefined) {
+      return { [key]: lightConfig[key] };
+    }
+  }
+  return {};
+}
+
+// Helper to build entity config from current state
+function buildEntityConfig(light: LightState): Record<string, unknown> {
+  const attrs = light.attributes as Record<string, unknown>;
+  const entityConfig: Record<string, unknown> = { state: light.state };
+
+  for (const key of SCENE_ATTRIBUTES) {
+    const value = attrs[key];
+    // Only include non-null, non-undefined values
+    // Home Assistant doesn't accept null values in scene config
+    if (value !== undefined && value !== null) {
       entityConfig[key] = value;
     }
   }
@@ -886,8 +1877,10 @@ async function handleConfigure(args: { url: string; token: string }): Promise<st
       return "Error: Invalid response from Home Assistant API";
     }
 
-    // Save config
+    // Save config and reconnect the WebSocket with the new credentials
     saveConfig(testConfig);
+    resetWebSocket();
+    void connectWebSocket();
     return `Successfully connected to Home Assistant at ${url}. Configuration saved.`;
   } catch (error) {
     config = oldConfig;
@@ -896,8 +1889,95 @@ async function handleConfigure(args: { url: string; token: string }): Promise<st
   }
 }
 
-async function handleGetLights(args: { filter?: string }): Promise<string> {
-  const lights = await getLights();
+// Build the display info for one light (shared by scene_show_lights and resources)
+function formatLightInfo(l: LightState): Record<string, unknown> {
+  const attrs = l.attributes;
+  const colorMode = attrs.color_mode;
+
+  // Determine if light is in WHITE mode or COLOR mode
+  const isWhiteMode = colorMode === "color_temp" || colorMode === "white";
+  const isColorMode = colorMode === "rgb" || colorMode === "hs" || colorMode === "xy" || colorMode === "rgbw" || colorMode === "rgbww";
+
+  const data: Record<string, unknown> = {
+    entity_id: l.entity_id,
+    name: attrs.friendly_name,
+    state: l.state,
+    brightness_pct: attrs.brightness
+      ? Math.round((attrs.brightness / 255) * 100)
+      : null,
+    color_mode: colorMode,
+  };
+
+  // For WHITE mode: show color temperature in Kelvin and human-readable description
+  if (isWhiteMode && attrs.color_temp_kelvin) {
+    data.color_temp_kelvin = attrs.color_temp_kelvin;
+    // Add human-readable white description
+    const kelvin = attrs.color_temp_kelvin;
+    if (kelvin <= 2700) {
+      data.white_description = "warm white (2700K)";
+    } else if (kelvin <= 3000) {
+      data.white_description = "warm white (3000K)";
+    } else if (kelvin <= 4000) {
+      data.white_description = "neutral white";
+    } else if (kelvin <= 5000) {
+      data.white_description = "cool white";
+    } else {
+      data.white_description = "daylight white";
+    }
+    // Do NOT include RGB for white mode - it's misleading
+  }
+
+  // For COLOR mode: show actual RGB color
+  if (isColorMode) {
+    const rgbColor = getRgbColor(attrs);
+    if (rgbColor) {
+      data.rgb_color = rgbColor;
+      data.hex_color = rgbToHex(rgbColor);
+
+      // Add human-readable color name
+      data.color_description = describeColor(rgbColor);
+    }
+  }
+
+  // Light mode summary for easy understanding
+  if (l.state === "on") {
+    if (isWhiteMode) {
+      data.mode_summary = `WHITE (${attrs.color_temp_kelvin}K)`;
+    } else if (isColorMode) {
+      data.mode_summary = "COLOR (RGB)";
+    } else if (colorMode === "brightness") {
+      data.mode_summary = "BRIGHTNESS ONLY";
+    } else if (colorMode === "onoff") {
+      data.mode_summary = "ON/OFF ONLY";
+    }
+  }
+
+  // Add effect if active (not "off" or null)
+  if (attrs.effect && attrs.effect !== "off") {
+    data.effect = attrs.effect;
+  }
+
+  // Add available effects if light supports them
+  if (attrs.effect_list && attrs.effect_list.length > 0) {
+    data.effect_list = attrs.effect_list;
+  }
+
+  // Add color temp range if light supports color_temp
+  if (attrs.supported_color_modes?.includes("color_temp")) {
+    data.color_temp_range = {
+      min: attrs.min_color_temp_kelvin,
+      max: attrs.max_color_temp_kelvin,
+    };
+  }
+
+  // Add supported modes for reference
+  data.supported_color_modes = attrs.supported_color_modes;
+
+  return data;
+}
+
+async function handleGetLights(args: { filter?: string; area?: string; floor?: string }): Promise<string> {
+  const lights = await filterLightsBySelector(await getLights(), args);
   let filtered = lights;
 
   if (args.filter) {
@@ -909,110 +1989,17 @@ async function handleGetLights(args: { filter?: string }): Promise<string> {
     );
   }
 
-  const result = filtered.map((l) => {
-    const attrs = l.attributes;
-    const colorMode = attrs.color_mode;
-
-    // Determine if light is in WHITE mode or COLOR mode
-    const isWhiteMode = colorMode === "color_temp" || colorMode === "white";
-    const isColorMode = colorMode === "rgb" || colorMode === "hs" || colorMode === "xy" || colorMode === "rgbw" || colorMode === "rgbww";
-
-    const data: Record<string, unknown> = {
-      entity_id: l.entity_id,
-      name: attrs.friendly_name,
-      state: l.state,
-      brightness_pct: attrs.brightness
-        ? Math.round((attrs.brightness / 255) * 100)
-        : null,
-      color_mode: colorMode,
-    };
-
-    // For WHITE mode: show color temperature in Kelvin and human-readable description
-    if (isWhiteMode && attrs.color_temp_kelvin) {
-      data.color_temp_kelvin = attrs.color_temp_kelvin;
-      // Add human-readable white description
-      const kelvin = attrs.color_temp_kelvin;
-      if (kelvin <= 2700) {
-        data.white_description = "warm white (2700K)";
-      } else if (kelvin <= 3000) {
-        data.white_description = "warm white (3000K)";
-      } else if (kelvin <= 4000) {
-        data.white_description = "neutral white";
-      } else if (kelvin <= 5000) {
-        data.white_description = "cool white";
-      } else {
-        data.white_description = "daylight white";
-      }
-      // Do NOT include RGB for white mode - it's misleading
-    }
-
-    // For COLOR mode: show actual RGB color
-    if (isColorMode) {
-      const rgbColor = getRgbColor(attrs);
-      if (rgbColor) {
-        data.rgb_color = rgbColor;
-        data.hex_color = `#${rgbColor.map(c => c.toString(16).padStart(2, '0')).join('')}`;
-
-        // Add human-readable color name
-        const [r, g, b] = rgbColor;
-        if (r > 200 && g < 100 && b < 100) {
-          data.color_description = "red";
-        } else if (r < 100 && g > 200 && b < 100) {
-          data.color_description = "green";
-        } else if (r < 100 && g < 100 && b > 200) {
-          data.color_description = "blue";
-        } else if (r > 200 && g > 200 && b < 100) {
-          data.color_description = "yellow";
-        } else if (r > 200 && g < 150 && b > 200) {
-          data.color_description = "purple/magenta";
-        } else if (r < 100 && g > 200 && b > 200) {
-          data.color_description = "cyan";
-        } else if (r > 200 && g > 100 && b < 100) {
-          data.color_description = "orange";
-        } else if (r > 200 && g > 150 && b > 150) {
-          data.color_description = "pink/salmon";
-        } else {
-          data.color_description = "custom color";
-        }
-      }
-    }
-
-    // Light mode summary for easy understanding
-    if (l.state === "on") {
-      if (isWhiteMode) {
-        data.mode_summary = `WHITE (${attrs.color_temp_kelvin}K)`;
-      } else if (isColorMode) {
-        data.mode_summary = "COLOR (RGB)";
-      } else if (colorMode === "brightness") {
-        data.mode_summary = "BRIGHTNESS ONLY";
-      } else if (colorMode === "onoff") {
-        data.mode_summary = "ON/OFF ONLY";
-      }
-    }
-
-    // Add effect if active (not "off" or null)
-    if (attrs.effect && attrs.effect !== "off") {
-      data.effect = attrs.effect;
-    }
-
-    // Add available effects if light supports them
-    if (attrs.effect_list && attrs.effect_list.length > 0) {
-      data.effect_list = attrs.effect_list;
-    }
+  const result = filtered.map(formatLightInfo);
 
-    // Add color temp range if light supports color_temp
-    if (attrs.supported_color_modes?.includes("color_temp")) {
-      data.color_temp_range = {
-        min: attrs.min_color_temp_kelvin,
-        max: attrs.max_color_temp_kelvin,
-      };
+  // Add area and floor when the registries are available
+  const registries = await tryGetRegistries();
+  if (registries) {
+    for (const data of result) {
+      const location = getLightLocation(registries, data.entity_id as string);
+      data.area = location.area?.name ?? null;
+      data.floor = location.floor?.name ?? null;
     }
-
-    // Add supported modes for reference
-    data.supported_color_modes = attrs.supported_color_modes;
-
-    return data;
-  });
+  }
 
   return JSON.stringify(result, null, 2);
 }
@@ -1091,150 +2078,564 @@ async function getLightManufacturer(entityId: string): Promise<string | null> {
   return info.manufacturer;
 }
 
-// Test light response time - toggle and measure
-async function testLightResponseTime(entityId: string): Promise<{ responseTime: number; success: boolean; error?: string }> {
-  const startTime = Date.now();
+// Area, floor and label registries
+// Loaded over the WebSocket API (there is no REST equivalent) and cached briefly
+const REGISTRY_CACHE_TTL_MS = 60000;
 
-  try {
-    // Get current state
-    const beforeState = await getLight(entityId);
-    const wasOn = beforeState.state === "on";
+interface HAAreaEntry {
+  area_id: string;
+  name: string;
+  floor_id?: string | null;
+  aliases?: string[];
+}
 
-    // Toggle light
-    if (wasOn) {
-      await callService("light", "turn_off", { entity_id: entityId });
-    } else {
-      await callService("light", "turn_on", { entity_id: entityId });
-    }
+interface HAFloorEntry {
+  floor_id: string;
+  name: string;
+  aliases?: string[];
+}
 
-    // Wait a bit and check if state changed
-    await delay(100);
+interface HALabelEntry {
+  label_id: string;
+  name: string;
+}
 
-    // Poll for state change (max 2 seconds)
-    const maxWait = 2000;
-    const pollInterval = 50;
-    let elapsed = 100;
+interface HAEntityRegistryEntry {
+  entity_id: string;
+  area_id: string | null;
+  device_id: string | null;
+  labels?: string[];
+}
 
-    while (elapsed < maxWait) {
-      const afterState = await getLight(entityId);
-      const isNowOn = afterState.state === "on";
+interface HADeviceRegistryEntry {
+  id: string;
+  area_id: string | null;
+  labels?: string[];
+}
 
-      if (isNowOn !== wasOn) {
-        // State changed - restore original state
-        if (wasOn) {
-          await callService("light", "turn_on", { entity_id: entityId });
-        } else {
-          await callService("light", "turn_off", { entity_id: entityId });
-        }
+interface HARegistries {
+  areas: HAAreaEntry[];
+  floors: HAFloorEntry[];
+  labels: HALabelEntry[];
+  entities: Map<string, HAEntityRegistryEntry>;
+  devices: Map<string, HADeviceRegistryEntry>;
+}
 
-        return { responseTime: Date.now() - startTime, success: true };
-      }
+interface LightLocation {
+  area: HAAreaEntry | null;
+  floor: HAFloorEntry | null;
+  labels: HALabelEntry[];
+}
 
-      await delay(pollInterval);
-      elapsed += pollInterval;
-    }
+// Area, floor and label selection for targeting lights
+interface LightSelector {
+  area?: string;
+  floor?: string;
+  label?: string;
+}
 
-    // Timeout - try to restore anyway
-    if (wasOn) {
-      await callService("light", "turn_on", { entity_id: entityId });
-    }
+let registryCache: { loadedAt: number; registries: HARegistries } | null = null;
 
-    return { responseTime: Date.now() - startTime, success: false, error: "Timeout - no response" };
-  } catch (error) {
-    return {
-      responseTime: Date.now() - startTime,
-      success: false,
-      error: error instanceof Error ? error.message : "Unknown error"
-    };
+async function listRegistry<T>(type: string): Promise<T[]> {
+  try {
+    return (await sendWsCommand({ type })) as T[];
+  } catch {
+    // Older HA versions don't have floor/label registries
+    return [];
   }
 }
 
-// Helper to detect IKEA Tradfri lights (checks manufacturer first, then entity_id as fallback)
-async function isIkeaLight(entityId: string, manufacturer?: string | null): Promise<boolean> {
-  // If manufacturer provided, check it
-  if (manufacturer !== undefined) {
-    if (manufacturer && manufacturer.toLowerCase().includes("ikea")) {
-      return true;
-    }
+async function getRegistries(): Promise<HARegistries> {
+  if (!(await connectWebSocket())) {
+    throw new Error("Area, floor and label targeting requires the Home Assistant WebSocket API, which is not available.");
   }
 
-  // Fallback: check entity_id for ikea/tradfri keywords
-  const entityLower = entityId.toLowerCase();
-  return entityLower.includes("ikea") || entityLower.includes("tradfri");
-}
+  if (registryCache && Date.now() - registryCache.loadedAt < REGISTRY_CACHE_TTL_MS) {
+    return registryCache.registries;
+  }
 
-// Helper for delay
-function delay(ms: number): Promise<void> {
+  const [areas, floors, labels, entities, devices] = await Promise.all([
+    listRegistry<HAAreaEntry>("config/area_registry/list"),
+    listRegistry<HAFloorEntry>("config/floor_registry/list"),
+    listRegistry<HALabelEntry>("config/label_registry/list"),
+    listRegistry<HAEntityRegistryEntry>("config/entity_registry/list"),
+    listRegistry<HADeviceRegistryEntry>("config/device_registry/list"),
+  ]);
+
+  const registries: HARegistries = {
+    areas,
+    floors,
+    labels,
+    entities: new Map(entities.map((e) => [e.entity_id, e])),
+    devices: new Map(devices.map((d) => [d.id, d])),
+  };
+  registryCache = { loadedAt: Date.now(), registries };
+  return registries;
+}
+
+// Registries if available, null otherwise (for optional display info)
+async function tryGetRegistries(): Promise<HARegistries | null> {
+  try {
+    return await getRegistries();
+  } catch {
+    return null;
+  }
+}
+
+function getLightLocation(registries: HARegistries, entityId: string): LightLocation {
+  const entity = registries.entities.get(entityId);
+  const device = entity?.device_id ? registries.devices.get(entity.device_id) : undefined;
+
+  // Entity's own area overrides the device area
+  const areaId = entity?.area_id || device?.area_id || null;
+  const area = registries.areas.find((a) => a.area_id === areaId) || null;
+  const floor = registries.floors.find((f) => f.floor_id === area?.floor_id) || null;
+
+  const labelIds = new Set([...(entity?.labels || []), ...(device?.labels || [])]);
+  const labels = registries.labels.filter((l) => labelIds.has(l.label_id));
+
+  return { area, floor, labels };
+}
+
+// Match by ID, name or alias - case-insensitive, spaces and underscores are equal
+function matchesRegistryName(query: string, id: string, name: string, aliases: string[] = []): boolean {
+  const normalize = (value: string) => value.toLowerCase().replace(/_/g, " ").trim();
+  const q = normalize(query);
+  return [id, name, ...aliases].some((candidate) => normalize(candidate) === q);
+}
+
+function locationMatches(location: LightLocation, kind: "area" | "floor" | "label", query: string): boolean {
+  if (kind === "area") {
+    return !!location.area && matchesRegistryName(query, location.area.area_id, location.area.name, location.area.aliases);
+  }
+  if (kind === "floor") {
+    return !!location.floor && matchesRegistryName(query, location.floor.floor_id, location.floor.name, location.floor.aliases);
+  }
+  return location.labels.some((l) => matchesRegistryName(query, l.label_id, l.name));
+}
+
+function assertRegistryEntryExists(registries: HARegistries, kind: "area" | "floor" | "label", query: string): void {
+  const known = kind === "area"
+    ? registries.areas.map((a) => ({ id: a.area_id, name: a.name, aliases: a.aliases }))
+    : kind === "floor"
+      ? registries.floors.map((f) => ({ id: f.floor_id, name: f.name, aliases: f.aliases }))
+      : registries.labels.map((l) => ({ id: l.label_id, name: l.name, aliases: [] }));
+
+  if (!known.some((k) => matchesRegistryName(query, k.id, k.name, k.aliases))) {
+    const names = known.map((k) => k.name).join(", ") || "none";
+    throw new Error(`${kind.charAt(0).toUpperCase() + kind.slice(1)} "${query}" not found. Known ${kind}s: ${names}`);
+  }
+}
+
+function hasSelector(selector: LightSelector): boolean {
+  return !!(selector.area || selector.floor || selector.label);
+}
+
+// Keep only lights in the selected area/floor/label (all given selectors must match)
+async function filterLightsBySelector(lights: LightState[], selector: LightSelector): Promise<LightState[]> {
+  if (!hasSelector(selector)) return lights;
+
+  const registries = await getRegistries();
+  const criteria = (["area", "floor", "label"] as const)
+    .filter((kind) => selector[kind])
+    .map((kind) => ({ kind, query: selector[kind]! }));
+
+  for (const { kind, query } of criteria) {
+    assertRegistryEntryExists(registries, kind, query);
+  }
+
+  return lights.filter((light) => {
+    const location = getLightLocation(registries, light.entity_id);
+    return criteria.every(({ kind, query }) => locationMatches(location, kind, query));
+  });
+}
+
+// Build a matcher for exclusion patterns
+// Plain patterns match entity_id or friendly_name substrings,
+// "area:", "floor:" and "label:" patterns match registry locations
+// Throws for unknown areas/floors/labels or unavailable registries, so a typo never excludes nothing
+async function buildExclusionMatcher(patterns: string[]): Promise<(light: LightState) => boolean> {
+  const prefixed: { kind: "area" | "floor" | "label"; query: string }[] = [];
+  const plain: string[] = [];
+  for (const pattern of patterns) {
+    const prefixMatch = pattern.match(/^(area|floor|label):(.+)$/i);
+    if (prefixMatch) {
+      prefixed.push({ kind: prefixMatch[1].toLowerCase() as "area" | "floor" | "label", query: prefixMatch[2] });
+    } else {
+      plain.push(pattern.toLowerCase());
+    }
+  }
+
+  const registries = prefixed.length > 0 ? await getRegistries() : null;
+  for (const { kind, query } of prefixed) {
+    assertRegistryEntryExists(registries!, kind, query);
+  }
+
+  return (light: LightState): boolean => {
+    if (patterns.length === 0) return false;
+    const entityLower = light.entity_id.toLowerCase();
+    const nameLower = (light.attributes.friendly_name || "").toLowerCase();
+
+    if (plain.some((pattern) => entityLower.includes(pattern) || nameLower.includes(pattern))) {
+      return true;
+    }
+    if (!registries) return false;
+    const location = getLightLocation(registries, light.entity_id);
+    return prefixed.some(({ kind, query }) => locationMatches(location, kind, query));
+  };
+}
+
+// Test light response time - toggle and measure
+async function testLightResponseTime(entityId: string): Promise<{ responseTime: number; success: boolean; error?: string }> {
+  const startTime = Date.now();
+
+  try {
+    // Get current state
+    const beforeState = await getLight(entityId);
+    const wasOn = beforeState.state === "on";
+
+    // Toggle light
+    if (wasOn) {
+      await callService("light", "turn_off", { entity_id: entityId });
+    } else {
+      await callService("light", "turn_on", { entity_id: entityId });
+    }
+
+    // Wait for the state change (max 2 seconds)
+    const afterState = await waitForLightState(entityId, (s) => (s.state === "on") !== wasOn, 2000);
+
+    if (afterState) {
+      // State changed - restore original state
+      if (wasOn) {
+        await callService("light", "turn_on", { entity_id: entityId });
+      } else {
+        await callService("light", "turn_off", { entity_id: entityId });
+      }
+
+      return { responseTime: Date.now() - startTime, success: true };
+    }
+
+    // Timeout - try to restore anyway
+    if (wasOn) {
+      await callService("light", "turn_on", { entity_id: entityId });
+    }
+
+    return { responseTime: Date.now() - startTime, success: false, error: "Timeout - no response" };
+  } catch (error) {
+    return {
+      responseTime: Date.now() - startTime,
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error"
+    };
+  }
+}
+
+// Helper to detect IKEA Tradfri lights (checks manufacturer first, then entity_id as fallback)
+async function isIkeaLight(entityId: string, manufacturer?: string | null): Promise<boolean> {
+  // If manufacturer provided, check it
+  if (manufacturer !== undefined) {
+    if (manufacturer && manufacturer.toLowerCase().includes("ikea")) {
+      return true;
+    }
+  }
+
+  // Fallback: check entity_id for ikea/tradfri keywords
+  const entityLower = entityId.toLowerCase();
+  return entityLower.includes("ikea") || entityLower.includes("tradfri");
+}
+
+// Helper for delay
+function delay(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
 // Rate limiting: delay between commands when controlling multiple lights
 const RATE_LIMIT_DELAY_MS = 50; // 50ms between commands to avoid overwhelming HA
 
-async function handleSetLight(args: {
-  entity_id: string;
-  state?: string;
-  brightness?: number;
-  brightness_pct?: number;
-  rgb_color?: [number, number, number];
-  color_temp_kelvin?: number;
-  effect?: string;
+// IKEA lights need time to switch color mode before accepting brightness
+// With a transition, wait until the color fade has finished
+const IKEA_MODE_SWITCH_DELAY_MS = 500;
+
+function ikeaStepDelay(transition?: number): number {
+  return Math.max(IKEA_MODE_SWITCH_DELAY_MS, (transition || 0) * 1000);
+}
+
+// A tool call waits for a fade at most this long, longer fades finish after it returns
+const MAX_TRANSITION_WAIT_MS = 5000;
+
+function transitionWaitMs(transition?: number): number {
+  return Math.min((transition || 0) * 1000, MAX_TRANSITION_WAIT_MS);
+}
+
+function isLongTransition(transition?: number): boolean {
+  return (transition || 0) * 1000 > MAX_TRANSITION_WAIT_MS;
+}
+
+// Service calls sent after their tool call returned that failed, newest first
+// The next activation of the same scene and scene_diagnose report them
+interface DeferredCallFailure {
+  action: string;
+  error: string;
+  failedAt: string;
+}
+const MAX_DEFERRED_CALL_FAILURES = 20;
+const deferredCallFailures: DeferredCallFailure[] = [];
+
+// Run calls in the background after a delay, recording failures instead of crashing the server
+function runDeferred(action: string, delayMs: number, run: () => Promise<unknown>): void {
+  setTimeout(() => {
+    run().catch((error) => {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Background call for ${action} failed: ${message}`);
+      deferredCallFailures.unshift({ action, error: message, failedAt: new Date().toISOString() });
+      deferredCallFailures.splice(MAX_DEFERRED_CALL_FAILURES);
+    });
+  }, delayMs);
+}
+
+// Remove and return the recorded failures of one action
+function takeDeferredCallFailures(action: string): DeferredCallFailure[] {
+  const taken = deferredCallFailures.filter((f) => f.action === action);
+  for (const failure of taken) {
+    deferredCallFailures.splice(deferredCallFailures.indexOf(failure), 1);
+  }
+  return taken;
+}
+
+// Scene activation sends commands in parallel, at most this many at once
+// Override with HA_SCENE_CONCURRENCY (1 = one light after another)
+const DEFAULT_SCENE_CONCURRENCY = 4;
+
+function getSceneConcurrency(): number {
+  const value = Number(process.env.HA_SCENE_CONCURRENCY || DEFAULT_SCENE_CONCURRENCY);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_SCENE_CONCURRENCY;
+}
+
+// Run async tasks with at most `limit` in flight, results keep task order
+// Each worker waits `paceMs` between its own tasks
+async function runWithConcurrency<T>(tasks: Array<() => Promise<T>>, limit: number, paceMs: number = 0): Promise<T[]> {
+  const results: T[] = new Array(tasks.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    let first = true;
+    while (next < tasks.length) {
+      const index = next++;
+      if (!first && paceMs > 0) {
+        await delay(paceMs);
+      }
+      first = false;
+      results[index] = await tasks[index]();
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, tasks.length) }, worker));
+  return results;
+}
+
+async function handleSetLight(args: LightSettings & {
+  entity_id?: string;
+  area?: string;
+  floor?: string;
   user_confirmed?: boolean;
 }): Promise<string> {
-  const { entity_id, state, brightness, brightness_pct, rgb_color, color_temp_kelvin, effect, user_confirmed } = args;
+  const { entity_id, area, floor, user_confirmed, ...settings } = args;
 
   // Safety check: require explicit user confirmation
   if (!user_confirmed) {
     return "BLOCKED: Light changes require explicit user confirmation. Set user_confirmed=true only when user has explicitly requested this light change.";
   }
 
+  // Area/floor targeting: apply the same settings to each light in the selection
+  if (!entity_id) {
+    if (!hasSelector(args)) {
+      return "Error: entity_id, area or floor is required.";
+    }
+
+    const targets = await filterLightsBySelector(await getLights(), args);
+    if (targets.length === 0) {
+      return "No lights found in the selected area/floor.";
+    }
+
+    await saveLightSnapshot(`scene_adjust_light: ${area || floor}`, targets);
+
+    const results: string[] = [];
+    for (let i = 0; i < targets.length; i++) {
+      if (i > 0) {
+        await delay(RATE_LIMIT_DELAY_MS);
+      }
+      results.push(await setLight(targets[i].entity_id, settings));
+    }
+    return results.join("\n");
+  }
+
   validateEntityId(entity_id);
 
-  if (state === "off") {
-    await callService("light", "turn_off", { entity_id });
+  await saveLightSnapshot(`scene_adjust_light: ${entity_id}`, [await getLight(entity_id)]);
+
+  return await setLight(entity_id, settings);
+}
+
+async function setLight(entity_id: string, settings: LightSettings): Promise<string> {
+  const result = await applyLightSettings(entity_id, settings);
+
+  if (settings.state === "off") {
     return `Turned off ${entity_id}`;
   }
 
-  const hasRgb = rgb_color !== undefined;
-  const hasColorTemp = color_temp_kelvin !== undefined;
+  const newState = (await waitForAdjustedLight(entity_id, result.resolved)) ?? (await getLight(entity_id));
+  if (result.ikea) {
+    return `Updated ${entity_id} (IKEA, split commands): state=${newState.state}, brightness=${newState.attributes.brightness}`;
+  }
 
-  // Check if this is an IKEA light (with manufacturer lookup)
-  const manufacturer = await getLightManufacturer(entity_id);
-  const isIkea = await isIkeaLight(entity_id, manufacturer);
+  const effectInfo = newState.attributes.effect && newState.attributes.effect !== "off"
+    ? `, effect=${newState.attributes.effect}`
+    : "";
+  return `Updated ${entity_id}: state=${newState.state}, brightness=${newState.attributes.brightness}${effectInfo}`;
+}
 
-  // IKEA Tradfri lights can't switch between RGB and color_temp mode in one command
-  // Need to send color mode change first, then other parameters
-  if (isIkea && (hasRgb || hasColorTemp)) {
-    // First call: set color mode (RGB or color_temp)
-    const colorData: Record<string, unknown> = { entity_id };
-    if (hasRgb) {
-      colorData.rgb_color = rgb_color;
-    } else if (hasColorTemp) {
-      colorData.color_temp_kelvin = color_temp_kelvin;
+// Settings for one light (scene_adjust_light / scene_adjust_lights)
+interface LightSettings {
+  state?: string;
+  brightness?: number;
+  brightness_pct?: number;
+  rgb_color?: [number, number, number];
+  hs_color?: [number, number];
+  xy_color?: [number, number];
+  rgbw_color?: [number, number, number, number];
+  rgbww_color?: [number, number, number, number, number];
+  color_name?: string;             // CSS3 color name, e.g. "teal"
+  color_temp_kelvin?: number;
+  effect?: string;
+  transition?: number;
+  brightness_step_pct?: number;    // Relative change in percentage points
+  color_temp_kelvin_step?: number; // Relative change in Kelvin (negative = warmer)
+}
+
+// Turn relative changes into absolute values based on the light's current state
+// Kelvin is clamped to the light's own min/max color temperature
+async function resolveRelativeSettings(entity_id: string, settings: LightSettings): Promise<LightSettings> {
+  const { brightness_step_pct, color_temp_kelvin_step, ...resolved } = settings;
+  if (brightness_step_pct === undefined && color_temp_kelvin_step === undefined) {
+    return settings;
+  }
+
+  const light = await getLight(entity_id);
+  const attrs = light.attributes;
+
+  if (brightness_step_pct !== undefined) {
+    if (settings.brightness !== undefined || settings.brightness_pct !== undefined) {
+      throw new Error("Use either brightness/brightness_pct or brightness_step_pct, not both.");
     }
-    await callService("light", "turn_on", colorData);
 
-    // Wait for light to switch color mode
-    await delay(500);
+    const current = light.state === "on" ? attrs.brightness ?? 255 : 0;
+    const target = current + Math.round((brightness_step_pct / 100) * 255);
+    if (target <= 0) {
+      // Dimming to zero or below turns the light off (and keeps a light that is off, off)
+      return { ...resolved, state: "off" };
+    }
+    resolved.brightness = Math.min(255, target);
+  }
+
+  if (color_temp_kelvin_step !== undefined) {
+    if (settings.color_temp_kelvin !== undefined) {
+      throw new Error("Use either color_temp_kelvin or color_temp_kelvin_step, not both.");
+    }
+    if (!attrs.color_temp_kelvin) {
+      throw new Error(`${entity_id} has no current color temperature (it is off or not in white mode). Set color_temp_kelvin instead.`);
+    }
+
+    const min = attrs.min_color_temp_kelvin ?? 2000;
+    const max = attrs.max_color_temp_kelvin ?? 6500;
+    resolved.color_temp_kelvin = Math.max(min, Math.min(max, attrs.color_temp_kelvin + color_temp_kelvin_step));
+  }
 
-    // Second call: brightness (if specified)
-    if (brightness !== undefined || brightness_pct !== undefined) {
-      const brightnessData: Record<string, unknown> = { entity_id };
+  return resolved;
+}
+
+// Move an xy/hs color the light can't show to the closest one it can,
+// so the light's reported color matches what was sent (and scene verification passes)
+function clampColorToGamut(key: string, value: unknown, gamut: Gamut | null): unknown {
+  if (!gamut) return value;
+  if (key === "xy_color") {
+    return clampToGamut(value as XY, gamut);
+  }
+  if (key === "hs_color") {
+    const xy = hsToXy(value as HS);
+    return isInGamut(xy, gamut) ? value : xyToHs(xy, gamut);
+  }
+  return value;
+}
+
+// Send the service calls for one light
+// ikea: true if the IKEA split-command sequence was used
+// timedOut: true if any service call timed out (callService returns null)
+// resolved: the settings sent, with relative changes turned into absolute values
+async function applyLightSettings(
+  entity_id: string,
+  settings: LightSettings
+): Promise<{ ikea: boolean; timedOut: boolean; resolved: LightSettings }> {
+  const resolved = await resolveRelativeSettings(entity_id, settings);
+  const { state, brightness, brightness_pct, effect, transition } = resolved;
+  const transitionData = transition !== undefined ? { transition } : {};
+
+  if (state === "off") {
+    const response = await callService("light", "turn_off", { entity_id, ...transitionData });
+    return { ikea: false, timedOut: response === null, resolved };
+  }
+
+  // Home Assistant accepts only one color attribute per call
+  const colorKeys = LIGHT_COLOR_SETTINGS.filter((key) => resolved[key] !== undefined);
+  if (colorKeys.length > 1) {
+    throw new Error(`Specify only one color setting, got: ${colorKeys.join(", ")}`);
+  }
+
+  // Manufacturer for the IKEA check, model for the color gamut
+  const { manufacturer, model } = await getDeviceInfo(entity_id);
+  const gamut = getGamutForModel(model);
+  const colorData: Record<string, unknown> = colorKeys.length > 0
+    ? { [colorKeys[0]]: clampColorToGamut(colorKeys[0], resolved[colorKeys[0]], gamut) }
+    : {};
+
+  const isIkea = await isIkeaLight(entity_id, manufacturer);
+
+  // IKEA Tradfri lights can't switch between RGB and color_temp mode in one command
+  // Need to send color mode change first, then other parameters
+  if (isIkea && colorKeys.length > 0) {
+    // The effect goes with the last call, after the color mode switch
+    const hasBrightness = brightness !== undefined || brightness_pct !== undefined;
+    const effectData = effect !== undefined ? { effect } : {};
+
+    // First call: set color mode (color or color_temp)
+    let timedOut = (await callService("light", "turn_on", {
+      entity_id, ...transitionData, ...colorData, ...(hasBrightness ? {} : effectData),
+    })) === null;
+
+    // Second call: brightness (if specified), once the light has switched color mode
+    if (hasBrightness) {
+      const brightnessData: Record<string, unknown> = { entity_id, ...transitionData, ...effectData };
       if (brightness !== undefined) {
         brightnessData.brightness = brightness;
       }
       if (brightness_pct !== undefined) {
         brightnessData.brightness_pct = brightness_pct;
       }
-      await callService("light", "turn_on", brightnessData);
+
+      // Long fade: send brightness when the color fade is done, without holding the tool call
+      if (isLongTransition(transition)) {
+        runDeferred(`light ${entity_id}`, ikeaStepDelay(transition), () => callService("light", "turn_on", brightnessData));
+        return { ikea: true, timedOut, resolved };
+      }
+
+      await delay(ikeaStepDelay(transition));
+      timedOut = (await callService("light", "turn_on", brightnessData)) === null || timedOut;
     }
 
-    const newState = await getLight(entity_id);
-    return `Updated ${entity_id} (IKEA, split commands): state=${newState.state}, brightness=${newState.attributes.brightness}`;
+    return { ikea: true, timedOut, resolved };
   }
 
   // Standard lights: single call with all parameters
-  const serviceData: Record<string, unknown> = { entity_id };
+  const serviceData: Record<string, unknown> = { entity_id, ...transitionData, ...colorData };
 
   if (brightness !== undefined) {
     serviceData.brightness = brightness;
@@ -1242,32 +2643,125 @@ async function handleSetLight(args: {
   if (brightness_pct !== undefined) {
     serviceData.brightness_pct = brightness_pct;
   }
-  if (rgb_color !== undefined) {
-    serviceData.rgb_color = rgb_color;
-  }
-  if (color_temp_kelvin !== undefined) {
-    serviceData.color_temp_kelvin = color_temp_kelvin;
-  }
   if (effect !== undefined) {
     serviceData.effect = effect;
   }
 
-  await callService("light", "turn_on", serviceData);
+  const response = await callService("light", "turn_on", serviceData);
+  return { ikea: false, timedOut: response === null, resolved };
+}
+
+// How long an adjustment waits for the light to report its new state, on top of the fade
+const ADJUST_STATE_WAIT_MS = 2000;
+
+// Wait until a light reports the on/off state and brightness it was sent, null if it doesn't in time
+// A fade longer than a tool call waits only has to have started
+async function waitForAdjustedLight(entity_id: string, settings: LightSettings): Promise<LightState | null> {
+  const { brightness_pct, transition } = settings;
+  const brightness = settings.brightness ?? (brightness_pct !== undefined ? Math.round((brightness_pct / 100) * 255) : undefined);
+  const expectedState = settings.state === "off" || brightness === 0 ? "off" : "on";
+  const checkBrightness = expectedState === "on" && brightness !== undefined && !isLongTransition(transition);
+
+  return waitForLightState(
+    entity_id,
+    (light) => light.state === expectedState &&
+      (!checkBrightness || Math.abs((light.attributes.brightness ?? 0) - brightness!) <= VERIFY_BRIGHTNESS_TOLERANCE),
+    transitionWaitMs(transition) + ADJUST_STATE_WAIT_MS
+  );
+}
 
-  const newState = await getLight(entity_id);
-  const effectInfo = newState.attributes.effect && newState.attributes.effect !== "off"
-    ? `, effect=${newState.attributes.effect}`
-    : "";
-  return `Updated ${entity_id}: state=${newState.state}, brightness=${newState.attributes.brightness}${effectInfo}`;
+// Per-light result of a batch adjustment
+interface LightAdjustResult {
+  entity_id: string;
+  status: "ok" | "timeout" | "error";
+  ikea?: boolean;
+  state?: string;
+  brightness?: number | null;
+  error?: string;
+}
+
+async function handleAdjustLights(args: LightSettings & {
+  entity_ids?: string[];
+  lights?: Record<string, LightSettings>;
+  user_confirmed?: boolean;
+}): Promise<string> {
+  const { entity_ids = [], lights = {}, user_confirmed, ...shared } = args;
+
+  // Safety check: require explicit user confirmation
+  if (!user_confirmed) {
+    return "BLOCKED: Light changes require explicit user confirmation. Set user_confirmed=true only when user has explicitly requested these light changes.";
+  }
+
+  // Shared settings for entity_ids, per-light settings override them
+  const targets: Map<string, LightSettings> = new Map();
+  for (const entityId of entity_ids) {
+    targets.set(entityId, { ...shared });
+  }
+  for (const [entityId, settings] of Object.entries(lights)) {
+    targets.set(entityId, { ...shared, ...settings });
+  }
+
+  if (targets.size === 0) {
+    return "Error: entity_ids or lights is required.";
+  }
+
+  for (const entityId of targets.keys()) {
+    validateEntityId(entityId);
+  }
+
+  const allLights = await getLights();
+  await saveLightSnapshot("scene_adjust_lights", allLights.filter((l) => targets.has(l.entity_id)));
+
+  const results: LightAdjustResult[] = [];
+  let index = 0;
+
+  for (const [entityId, settings] of targets) {
+    // Rate limiting between lights
+    if (index++ > 0) {
+      await delay(RATE_LIMIT_DELAY_MS);
+    }
+
+    try {
+      const { ikea, timedOut, resolved } = await applyLightSettings(entityId, settings);
+      // The state cache lags behind the service call, so wait for the light to report the change
+      const reached = await waitForAdjustedLight(entityId, resolved);
+      const newState = reached ?? (await getLight(entityId));
+      results.push({
+        entity_id: entityId,
+        status: timedOut || !reached ? "timeout" : "ok",
+        ikea,
+        state: newState.state,
+        brightness: newState.attributes.brightness ?? null,
+      });
+    } catch (error) {
+      results.push({
+        entity_id: entityId,
+        status: "error",
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const summary = {
+    total: results.length,
+    ok: results.filter((r) => r.status === "ok").length,
+    timeout: results.filter((r) => r.status === "timeout").length,
+    error: results.filter((r) => r.status === "error").length,
+  };
+
+  return JSON.stringify({ summary, lights: results }, null, 2);
 }
 
 async function handleCreateScene(args: {
   name: string;
   mode: "exclusive" | "additive";
   entity_ids?: string[];
+  area?: string;
+  floor?: string;
   icon?: string;
+  transition?: number;
 }): Promise<string> {
-  const { mode, entity_ids, icon } = args;
+  const { mode, entity_ids, icon, transition } = args;
   const name = toTitleCase(args.name);
 
   // Check if scene with this name already exists
@@ -1287,6 +2781,9 @@ async function handleCreateScene(args: {
     // Capture specified entities
     const allLights = await getLights();
     lightsToCapture = allLights.filter((l) => entity_ids.includes(l.entity_id));
+  } else if (hasSelector(args)) {
+    // Capture every light in the area/floor, including those that are off
+    lightsToCapture = await filterLightsBySelector(await getLights(), args);
   } else {
     // Capture lights that are currently on
     // For exclusive mode, scene activation will handle turning off other lights
@@ -1295,7 +2792,9 @@ async function handleCreateScene(args: {
   }
 
   if (lightsToCapture.length === 0) {
-    return "No lights are on. Please turn on some lights or specify entity_ids.";
+    return hasSelector(args)
+      ? "No lights found in the selected area/floor."
+      : "No lights are on. Please turn on some lights or specify entity_ids.";
   }
 
   // Build entities config
@@ -1318,12 +2817,15 @@ async function handleCreateScene(args: {
   if (icon) {
     sceneConfig.icon = icon;
   }
+  if (transition !== undefined) {
+    sceneConfig.metadata!.transition = transition;
+  }
 
   // Save to Home Assistant
   await saveSceneConfig(sceneConfig);
 
   // Backup locally for resilience
-  backupScene(sceneId, name, mode, entities);
+  await backupScene(sceneId, name, mode, entities, transition);
 
   const modeDescription = mode === "exclusive"
     ? "other lights will be turned off when activated"
@@ -1361,11 +2863,16 @@ async function handleListScenes(): Promise<string> {
   return JSON.stringify(result, null, 2);
 }
 
-async function handleActivateScene(args: { entity_id: string; user_confirmed?: boolean }): Promise<string> {
-  let { entity_id, user_confirmed } = args;
+async function handleActivateScene(args: {
+  entity_id: string;
+  transition?: number;
+  dry_run?: boolean;
+  user_confirmed?: boolean;
+}): Promise<string> {
+  let { entity_id, transition, dry_run = false, user_confirmed } = args;
 
-  // Safety check: require explicit user confirmation
-  if (!user_confirmed) {
+  // Safety check: require explicit user confirmation (a dry run changes nothing)
+  if (!user_confirmed && !dry_run) {
     return "BLOCKED: Scene activation requires explicit user confirmation. Set user_confirmed=true only when user has explicitly requested this scene activation.";
   }
 
@@ -1422,10 +2929,14 @@ async function handleActivateScene(args: { entity_id: string; user_confirmed?: b
         id: backupId,
         name: backup.name,
         entities: validEntities,
-        metadata: { mode: backup.mode },
+        metadata: { mode: backup.mode, transition: transition ?? backup.transition },
       };
 
-      return await activateSceneFromConfig(workingConfig, allLights, `[Activated from local backup - scene not in HA] `);
+      return await activateSceneFromConfig(workingConfig, allLights, {
+        notes: "Activated from local backup - scene not in HA",
+        dryRun: dry_run,
+        snapshotAction: `scene_activate: ${backup.name}`,
+      });
     }
 
     return `Scene "${entity_id}" not found in Home Assistant or local backup.`;
@@ -1457,47 +2968,30 @@ async function handleActivateScene(args: { entity_id: string; user_confirmed?: b
       // HA has changed since our last sync - another instance modified it!
       conflictDetected = true;
 
-      // Smart merge strategy:
-      // 1. Get lights from both sources
-      const localLights = new Set(Object.keys(localBackup.entities));
-      const haLights = new Set(Object.keys(haConfig.entities));
-
-      // 2. Find differences
-      const onlyInLocal = [...localLights].filter(l => !haLights.has(l));
-      const onlyInHA = [...haLights].filter(l => !localLights.has(l));
-      const inBoth = [...localLights].filter(l => haLights.has(l));
+      // Three-way merge against the config we last saw in HA, for THIS activation only
+      // Overlapping changes use HA's version until resolved with scene_resolve_conflict
+      const merge = mergeSceneConfigs(localBackup, haConfig);
+      entities = merge.entities;
+      mode = merge.mode;
 
-      // 3. Merge: prefer HA for shared lights (it's more recent), keep unique lights from both
-      entities = {};
-
-      // Lights in both - use HA config (more recent from another instance)
-      for (const lightId of inBoth) {
-        if (allLightIds.has(lightId)) {
-          entities[lightId] = haConfig.entities[lightId];
-        }
+      for (const lightId of merge.from_theirs) {
+        healingDetails.push(`merged from other instance: ${lightId}`);
       }
-
-      // Lights only in HA - another instance added them
-      for (const lightId of onlyInHA) {
-        if (allLightIds.has(lightId)) {
-          entities[lightId] = haConfig.entities[lightId];
-          healingDetails.push(`merged from other instance: ${lightId}`);
-        }
+      for (const lightId of merge.from_ours) {
+        healingDetails.push(`kept local: ${lightId}`);
+      }
+      for (const conflict of merge.conflicts) {
+        const attributes = conflict.attributes ? ` (${conflict.attributes.map((a) => a.attribute).join(", ")})` : "";
+        healingDetails.push(`conflict on ${conflict.entity_id}${attributes}`);
+      }
+      if (merge.mode_conflict) {
+        healingDetails.push(`conflict on mode (local ${merge.mode_conflict.ours}, HA ${merge.mode_conflict.theirs})`);
       }
 
-      // Lights only in local - we had them, HA doesn't (maybe removed by other instance or old)
-      for (const lightId of onlyInLocal) {
-        if (allLightIds.has(lightId)) {
-          // Check if light still exists in system
-          entities[lightId] = localBackup.entities[lightId];
-          healingDetails.push(`kept local: ${lightId}`);
-        }
-      }
-
-      // Use HA's mode if different (another instance may have changed it)
-      mode = (haConfig.metadata?.mode as "exclusive" | "additive") || localBackup.mode;
-
-      healingDetails.unshift(`CONFLICT: HA modified by another instance, merged configs`);
+      const hasConflicts = merge.conflicts.length > 0 || merge.mode_conflict;
+      healingDetails.unshift(hasConflicts
+        ? `CONFLICT: HA modified by another instance, overlapping changes use the HA version - resolve with scene_resolve_conflict`
+        : `HA modified by another instance, merged without conflicts - save with scene_resolve_conflict`);
     } else {
       // No conflict - use local backup as source of truth
       mode = localBackup.mode;
@@ -1515,7 +3009,21 @@ async function handleActivateScene(args: { entity_id: string; user_confirmed?: b
     healingDetails.push(`imported from HA (created by another instance or UI)`);
   } else {
     // No config at all - fallback to basic HA activation
-    await callService("scene", "turn_on", { entity_id: targetScene.entity_id });
+    const fallbackCall: PlannedServiceCall = {
+      domain: "scene",
+      service: "turn_on",
+      data: { entity_id: targetScene.entity_id, ...(transition !== undefined ? { transition } : {}) },
+    };
+    if (dry_run) {
+      return JSON.stringify({
+        dry_run: true,
+        scene: targetScene.entity_id,
+        notes: "No detailed config available - Home Assistant decides which lights change",
+        service_calls: [fallbackCall],
+      }, null, 2);
+    }
+    await saveLightSnapshot(`scene_activate: ${targetScene.entity_id}`, allLights);
+    await runServiceCalls([fallbackCall]);
     return `Activated scene "${targetScene.entity_id}" (no detailed config available)`;
   }
 
@@ -1544,207 +3052,558 @@ async function handleActivateScene(args: { entity_id: string; user_confirmed?: b
   // Only report issues - let user decide to fix with scene_fix or scene_update
 
   // Build working config for activation (use merged entities for THIS activation only)
+  // Explicit transition overrides the scene's default
   const workingConfig: SceneConfig = {
     id: configId || generateSceneId(),
     name: localBackup?.name || haConfig?.name || entity_id,
     entities,
-    metadata: { mode },
+    metadata: { mode, transition: transition ?? getSceneTransition(haConfig) ?? localBackup?.transition },
   };
 
   // Build info message about detected issues (but don't fix them)
-  let issueInfo = "";
+  let issueInfo: string | undefined;
   if (healingDetails.length > 0) {
-    issueInfo = `[Issues detected: ${healingDetails.join("; ")}. Use scene_fix to repair.] `;
+    issueInfo = `Issues detected: ${healingDetails.join("; ")}. Use scene_fix to repair.`;
   }
 
-  return await activateSceneFromConfig(workingConfig, allLights, issueInfo);
+  return await activateSceneFromConfig(workingConfig, allLights, {
+    notes: issueInfo,
+    dryRun: dry_run,
+    snapshotAction: `scene_activate: ${workingConfig.name}`,
+  });
 }
 
-// Helper function to actually activate a scene from config
-async function activateSceneFromConfig(
-  sceneConfig: SceneConfig,
-  allLights: LightState[],
-  prefixMessage: string = ""
-): Promise<string> {
-  const mode = (sceneConfig.metadata?.mode as "exclusive" | "additive") || "exclusive";
-  const sceneEntityIds = Object.keys(sceneConfig.entities);
+// Service call a tool makes, listed in dry-run plans
+interface PlannedServiceCall {
+  domain: string;
+  service: string;
+  data: Record<string, unknown>;
+  wait_ms?: number; // Delay before this call
+}
 
-  // In exclusive mode: turn off ALL lights first
-  if (mode === "exclusive") {
-    const lightsOn = allLights
-      .filter((l) => l.state === "on")
-      .map((l) => l.entity_id);
+// Calls after a wait longer than MAX_TRANSITION_WAIT_MS are sent in the background,
+// their failures are recorded under action
+async function runServiceCalls(calls: PlannedServiceCall[], action = "service calls"): Promise<void> {
+  for (const [index, call] of calls.entries()) {
+    if (call.wait_ms && call.wait_ms > MAX_TRANSITION_WAIT_MS) {
+      const rest = [{ ...call, wait_ms: undefined }, ...calls.slice(index + 1)];
+      runDeferred(action, call.wait_ms, () => runServiceCalls(rest, action));
+      return;
+    }
+    if (call.wait_ms) {
+      await delay(call.wait_ms);
+    }
+    await callService(call.domain, call.service, call.data);
+  }
+}
 
-    if (lightsOn.length > 0) {
-      await callService("light", "turn_off", { entity_id: lightsOn });
-      await delay(500);
+// Fade used for scene lights captured with off_with_transition when no transition is given
+const OFF_WITH_TRANSITION_SECONDS = 1;
+
+// Service calls that apply a scene config to one or more lights that share it
+// IKEA lights get split commands (color mode first, then brightness)
+function planSceneLight(
+  entityId: string | string[],
+  lightConfig: Record<string, unknown> | string,
+  ikea: boolean,
+  transition?: number
+): PlannedServiceCall[] {
+  const transitionData = transition !== undefined ? { transition } : {};
+
+  // Handle simple string format ("off" or "on") vs object format
+  if (typeof lightConfig === "string") {
+    const service = lightConfig === "off" ? "turn_off" : "turn_on";
+    return [{ domain: "light", service, data: { entity_id: entityId, ...transitionData } }];
+  }
+
+  if (lightConfig.state === "off") {
+    // A light captured after fading out fades out again, even when the activation has no transition
+    const offTransition = transition ?? (lightConfig.off_with_transition ? OFF_WITH_TRANSITION_SECONDS : undefined);
+    const offTransitionData = offTransition !== undefined ? { transition: offTransition } : {};
+    return [{ domain: "light", service: "turn_off", data: { entity_id: entityId, ...offTransitionData } }];
+  }
+
+  // Color in the light's own color mode
+  const colorData = getSceneColorData(lightConfig);
+  const effectData = getSceneEffectData(lightConfig);
+
+  if (ikea && Object.keys(colorData).length > 0) {
+    // First call: set color mode (color or color_temp)
+    const calls: PlannedServiceCall[] = [
+      { domain: "light", service: "turn_on", data: { entity_id: entityId, ...transitionData, ...colorData } },
+    ];
+
+    // Second call: brightness, once the IKEA light has switched color mode
+    if (lightConfig.brightness !== undefined) {
+      calls.push({
+        domain: "light",
+        service: "turn_on",
+        data: { entity_id: entityId, brightness: lightConfig.brightness, ...transitionData },
+        wait_ms: ikeaStepDelay(transition),
+      });
     }
+    // The effect goes with the last call, after the color mode switch
+    Object.assign(calls[calls.length - 1].data, effectData);
+    return calls;
   }
 
-  // Build list of IKEA vs non-IKEA lights
-  const ikeaLights: string[] = [];
-  const standardLights: string[] = [];
+  // Full state in one call (color + brightness + effect)
+  const data: Record<string, unknown> = { entity_id: entityId, ...transitionData, ...colorData, ...effectData };
+  if (lightConfig.brightness !== undefined) {
+    data.brightness = lightConfig.brightness;
+  }
+  return [{ domain: "light", service: "turn_on", data }];
+}
+
+// Effect to restore, only one the light lists as supported
+function getSceneEffectData(lightConfig: Record<string, unknown>): Record<string, unknown> {
+  const { effect, effect_list } = lightConfig;
+  if (typeof effect !== "string") return {};
+  if (Array.isArray(effect_list) && !effect_list.includes(effect)) return {};
+  return { effect };
+}
+
+// Lights with identical target settings, set with a single service call
+interface SceneLightGroup {
+  entityIds: string[];
+  config: Record<string, unknown> | string;
+  ikea: boolean;
+}
+
+// What a scene config actually sends, used to find lights that can share a call
+function getSceneLightTarget(lightConfig: Record<string, unknown> | string): unknown {
+  if (typeof lightConfig === "string") {
+    return lightConfig === "off" ? "off" : "on";
+  }
+  if (lightConfig.state === "off") {
+    return lightConfig.off_with_transition ? "off with transition" : "off";
+  }
+  return { ...getSceneColorData(lightConfig), ...getSceneEffectData(lightConfig), brightness: lightConfig.brightness };
+}
+
+// Group scene lights by target settings, IKEA groups first since their split commands take longest
+function groupSceneLights(sceneConfig: SceneConfig, lightIds: string[], ikeaLights: string[]): SceneLightGroup[] {
+  const groups = new Map<string, SceneLightGroup>();
+
+  for (const lightId of lightIds) {
+    const config = sceneConfig.entities[lightId];
+    if (!config) continue;
 
-  for (const lightId of sceneEntityIds as string[]) {
-    const manufacturer = await getLightManufacturer(lightId);
-    if (await isIkeaLight(lightId, manufacturer)) {
-      ikeaLights.push(lightId);
+    const target = getSceneLightTarget(config);
+    // Plain on/off needs no split command, so IKEA lights can share it
+    const ikea = ikeaLights.includes(lightId) && typeof target === "object";
+    const key = JSON.stringify([ikea, target]);
+
+    const group = groups.get(key);
+    if (group) {
+      group.entityIds.push(lightId);
     } else {
-      standardLights.push(lightId);
+      groups.set(key, { entityIds: [lightId], config, ikea });
     }
   }
 
-  let lightsSet = 0;
+  return [...groups.values()].sort((a, b) => Number(b.ikea) - Number(a.ikea));
+}
 
-  // Set each standard light explicitly with full state (color + brightness)
-  for (let i = 0; i < standardLights.length; i++) {
-    const lightId = standardLights[i];
-    const lightConfigRaw = sceneConfig.entities[lightId];
-    if (!lightConfigRaw) continue;
+// Set grouped scene lights in parallel, returns the number of lights set
+async function applySceneLightGroups(groups: SceneLightGroup[], transition?: number, action?: string): Promise<number> {
+  await runWithConcurrency(
+    groups.map((group) => () => runServiceCalls(planSceneLight(group.entityIds, group.config, group.ikea, transition), action)),
+    getSceneConcurrency(),
+    RATE_LIMIT_DELAY_MS
+  );
+  return groups.reduce((count, group) => count + group.entityIds.length, 0);
+}
 
-    // Handle simple string format ("off" or "on") vs object format
-    if (typeof lightConfigRaw === "string") {
-      if (lightConfigRaw === "off") {
-        await callService("light", "turn_off", { entity_id: lightId });
-      } else {
-        await callService("light", "turn_on", { entity_id: lightId });
-      }
-      lightsSet++;
-      continue;
-    }
+// Post-activation verification
+const SCENE_SETTLE_DELAY_MS = 300;
+const VERIFY_BRIGHTNESS_TOLERANCE = 8; // of 255, ~3%
+const VERIFY_KELVIN_TOLERANCE = 150;
+const VERIFY_COLOR_TOLERANCE = 12; // CIELAB delta E
+const VERIFY_MAX_RETRIES = 2;
 
-    const lightConfig = lightConfigRaw;
+interface SceneLightCheck {
+  entity_id: string;
+  issues: string[];
+}
 
-    // Rate limiting between lights
-    if (i > 0) {
-      await delay(RATE_LIMIT_DELAY_MS);
-    }
+interface SceneVerification {
+  matched: string[];
+  corrected: SceneLightCheck[];
+  failed: SceneLightCheck[];
+}
 
-    if (lightConfig.state === "off") {
-      await callService("light", "turn_off", { entity_id: lightId });
-      lightsSet++;
-      continue;
-    }
+// RGB for a scene/state color attribute
+function colorAttributeToRgb(key: string, value: unknown): RGB | null {
+  if (!Array.isArray(value)) return null;
+  switch (key) {
+    case "rgb_color":
+    case "rgbw_color":
+    case "rgbww_color":
+      return [value[0], value[1], value[2]];
+    case "hs_color":
+      return hsToRgb([value[0], value[1]]);
+    case "xy_color":
+      return xyToRgb([value[0], value[1]]);
+    default:
+      return null;
+  }
+}
 
-    // Build service data with all relevant attributes
-    const serviceData: Record<string, unknown> = { entity_id: lightId };
+// Differences between a light's live state and its scene config, empty if it matches
+function getSceneLightMismatches(
+  light: LightState,
+  lightConfig: Record<string, unknown> | string,
+  gamut: Gamut | null
+): string[] {
+  if (light.state === "unavailable" || light.state === "unknown") {
+    return [`light is ${light.state}`];
+  }
+
+  const expectedState = typeof lightConfig === "string" ? lightConfig : (lightConfig.state as string | undefined) ?? "on";
+  if (expectedState === "off") {
+    return light.state === "off" ? [] : ["expected off, is on"];
+  }
+  if (light.state !== "on") {
+    return [`expected on, is ${light.state}`];
+  }
+  if (typeof lightConfig === "string") {
+    return [];
+  }
+
+  const issues: string[] = [];
+  const attrs = light.attributes;
+
+  // Brightness (skipped for on/off-only lights)
+  const brightness = lightConfig.brightness as number | undefined;
+  if (brightness !== undefined && attrs.brightness != null && Math.abs(attrs.brightness - brightness) > VERIFY_BRIGHTNESS_TOLERANCE) {
+    issues.push(`brightness ${attrs.brightness} instead of ${brightness}`);
+  }
 
-    // Color: prefer rgb_color, then color_temp_kelvin, then color_temp
-    if (lightConfig.rgb_color !== undefined) {
-      serviceData.rgb_color = lightConfig.rgb_color;
-    } else if (lightConfig.color_temp_kelvin !== undefined) {
-      serviceData.color_temp_kelvin = lightConfig.color_temp_kelvin;
-    } else if (lightConfig.color_temp !== undefined) {
-      serviceData.color_temp = lightConfig.color_temp;
+  const [key, value] = Object.entries(getSceneColorData(lightConfig))[0] ?? [];
+  if (!key) {
+    return issues;
+  }
+
+  if (key === "white") {
+    if (attrs.color_mode !== "white") {
+      issues.push(`in ${attrs.color_mode ?? "unknown"} mode instead of white`);
     }
+    return issues;
+  }
 
-    // Brightness
-    if (lightConfig.brightness !== undefined) {
-      serviceData.brightness = lightConfig.brightness;
+  if (key === "color_temp_kelvin" || key === "color_temp") {
+    // The light clamps to its own range, so compare against the reachable value
+    let expectedKelvin = key === "color_temp" ? miredToKelvin(value as number) : (value as number);
+    expectedKelvin = Math.max(attrs.min_color_temp_kelvin ?? 0, Math.min(attrs.max_color_temp_kelvin ?? Infinity, expectedKelvin));
+
+    if (attrs.color_temp_kelvin == null) {
+      issues.push(`in ${attrs.color_mode ?? "unknown"} mode instead of ${expectedKelvin}K white`);
+    } else if (Math.abs(attrs.color_temp_kelvin - expectedKelvin) > VERIFY_KELVIN_TOLERANCE) {
+      issues.push(`color temp ${attrs.color_temp_kelvin}K instead of ${expectedKelvin}K`);
     }
+    return issues;
+  }
+
+  let expectedRgb = colorAttributeToRgb(key, value);
+  if (!expectedRgb) {
+    return issues;
+  }
+  // The light can only show colors inside its gamut
+  if (gamut) {
+    expectedRgb = xyToRgb(rgbToXy(expectedRgb), gamut);
+  }
 
-    await callService("light", "turn_on", serviceData);
-    lightsSet++;
+  // Compare in the same representation when the light reports it
+  const actualRgb = colorAttributeToRgb(key, (attrs as Record<string, unknown>)[key]) ?? getRgbColor(attrs);
+  if (!actualRgb) {
+    issues.push(`in ${attrs.color_mode ?? "unknown"} mode instead of color ${rgbToHex(expectedRgb)}`);
+  } else {
+    const distance = colorDistance(actualRgb, expectedRgb);
+    if (distance > VERIFY_COLOR_TOLERANCE) {
+      issues.push(`color ${rgbToHex(actualRgb)} instead of ${rgbToHex(expectedRgb)} (ΔE ${distance.toFixed(1)})`);
+    }
   }
 
-  // Handle IKEA lights with split commands (color mode first, then brightness)
-  for (let i = 0; i < ikeaLights.length; i++) {
-    const lightId = ikeaLights[i];
-    const lightConfigRaw = sceneConfig.entities[lightId];
-    if (!lightConfigRaw) continue;
+  return issues;
+}
+
+// Check scene lights against live state, returns only the lights that drifted
+async function findSceneMismatches(sceneConfig: SceneConfig, lightIds: string[]): Promise<Map<string, string[]>> {
+  const currentLights = new Map((await getLights()).map((l) => [l.entity_id, l]));
+  const mismatches = new Map<string, string[]>();
 
-    // Handle simple string format ("off" or "on") vs object format
-    if (typeof lightConfigRaw === "string") {
-      if (lightConfigRaw === "off") {
-        await callService("light", "turn_off", { entity_id: lightId });
-      } else {
-        await callService("light", "turn_on", { entity_id: lightId });
-      }
-      lightsSet++;
+  for (const lightId of lightIds) {
+    const light = currentLights.get(lightId);
+    if (!light) {
+      mismatches.set(lightId, ["light not found"]);
       continue;
     }
 
-    const lightConfig = lightConfigRaw;
+    const { model } = await getDeviceInfo(lightId);
+    const issues = getSceneLightMismatches(light, sceneConfig.entities[lightId], getGamutForModel(model));
+    if (issues.length > 0) {
+      mismatches.set(lightId, issues);
+    }
+  }
+
+  return mismatches;
+}
 
-    // Rate limiting between lights
-    if (lightsSet > 0 || i > 0) {
-      await delay(RATE_LIMIT_DELAY_MS);
+// Compare every scene light to its config and retry the ones that drifted
+async function verifySceneLights(
+  sceneConfig: SceneConfig,
+  ikeaLights: string[],
+  transition?: number
+): Promise<SceneVerification> {
+  const lightIds = Object.keys(sceneConfig.entities);
+  const initial = await findSceneMismatches(sceneConfig, lightIds);
+  let pending = initial;
+
+  for (let attempt = 0; attempt < VERIFY_MAX_RETRIES && pending.size > 0; attempt++) {
+    try {
+      await applySceneLightGroups(groupSceneLights(sceneConfig, [...pending.keys()], ikeaLights), transition, `scene ${sceneConfig.name}`);
+    } catch {
+      // Reported as failed by the next check
     }
 
-    if (lightConfig.state === "off") {
-      await callService("light", "turn_off", { entity_id: lightId });
-      lightsSet++;
-      continue;
+    await delay(SCENE_SETTLE_DELAY_MS + transitionWaitMs(transition));
+    pending = await findSceneMismatches(sceneConfig, [...pending.keys()]);
+  }
+
+  return {
+    matched: lightIds.filter((id) => !initial.has(id)),
+    corrected: [...initial.keys()]
+      .filter((id) => !pending.has(id))
+      .map((id) => ({ entity_id: id, issues: initial.get(id)! })),
+    failed: [...pending].map(([id, issues]) => ({ entity_id: id, issues })),
+  };
+}
+
+// Attribute-level difference of one light between two scene versions (scene_diff)
+interface LightAttributeDiff {
+  entity_id: string;
+  status: "changed" | "only_in_a" | "only_in_b";
+  differences?: Record<string, { a: unknown; b: unknown; delta_e?: number }>;
+}
+
+// Color of a scene entity as Kelvin (white) or RGB, for comparing different color modes
+function getEntityColor(entity: Record<string, unknown>): { kelvin?: number; rgb?: RGB } | null {
+  const [key, value] = Object.entries(getSceneColorData(entity))[0] ?? [];
+  if (key === "color_temp_kelvin") return { kelvin: value as number };
+  if (key === "color_temp") return { kelvin: miredToKelvin(value as number) };
+  const rgb = key ? colorAttributeToRgb(key, value) : null;
+  return rgb ? { rgb } : null;
+}
+
+function formatEntityColor(color: { kelvin?: number; rgb?: RGB } | null): string | null {
+  if (color?.kelvin !== undefined) return `${color.kelvin}K`;
+  if (color?.rgb) return rgbToHex(color.rgb);
+  return null;
+}
+
+// Compare two configs of the same light, using the verification tolerances
+function diffLightAttributes(
+  a: Record<string, unknown> | string,
+  b: Record<string, unknown> | string
+): Record<string, { a: unknown; b: unknown; delta_e?: number }> {
+  const left = normalizeSceneEntity(a);
+  const right = normalizeSceneEntity(b);
+  const differences: Record<string, { a: unknown; b: unknown; delta_e?: number }> = {};
+
+  const stateA = (left.state as string | undefined) ?? "on";
+  const stateB = (right.state as string | undefined) ?? "on";
+  if (stateA !== stateB) {
+    differences.state = { a: stateA, b: stateB };
+  }
+
+  // Brightness and color only matter when the light is on in both
+  if (stateA !== "on" || stateB !== "on") {
+    return differences;
+  }
+
+  const brightnessA = left.brightness as number | undefined;
+  const brightnessB = right.brightness as number | undefined;
+  if (brightnessA !== undefined && brightnessB !== undefined
+    ? Math.abs(brightnessA - brightnessB) > VERIFY_BRIGHTNESS_TOLERANCE
+    : brightnessA !== brightnessB) {
+    differences.brightness = { a: brightnessA ?? null, b: brightnessB ?? null };
+  }
+
+  const colorA = getEntityColor(left);
+  const colorB = getEntityColor(right);
+  if (colorA?.kelvin !== undefined && colorB?.kelvin !== undefined) {
+    if (Math.abs(colorA.kelvin - colorB.kelvin) > VERIFY_KELVIN_TOLERANCE) {
+      differences.color_temp_kelvin = { a: colorA.kelvin, b: colorB.kelvin };
     }
+  } else if (colorA?.rgb && colorB?.rgb) {
+    const distance = colorDistance(colorA.rgb, colorB.rgb);
+    if (distance > VERIFY_COLOR_TOLERANCE) {
+      differences.color = { a: rgbToHex(colorA.rgb), b: rgbToHex(colorB.rgb), delta_e: Math.round(distance * 10) / 10 };
+    }
+  } else if (formatEntityColor(colorA) !== formatEntityColor(colorB)) {
+    // White vs color, or color missing on one side
+    differences.color = { a: formatEntityColor(colorA), b: formatEntityColor(colorB) };
+  }
 
-    const hasRgb = lightConfig.rgb_color !== undefined;
-    const hasColorTemp = lightConfig.color_temp_kelvin !== undefined || lightConfig.color_temp !== undefined;
+  // "off" and "none" both mean no effect
+  const effectA = [undefined, "off", "none"].includes(left.effect as string) ? null : left.effect;
+  const effectB = [undefined, "off", "none"].includes(right.effect as string) ? null : right.effect;
+  if (effectA !== effectB) {
+    differences.effect = { a: effectA, b: effectB };
+  }
 
-    if (hasRgb || hasColorTemp) {
-      // First call: set color mode (RGB or color_temp)
-      const colorData: Record<string, unknown> = { entity_id: lightId };
-      if (hasRgb) {
-        colorData.rgb_color = lightConfig.rgb_color;
-      } else if (lightConfig.color_temp_kelvin !== undefined) {
-        colorData.color_temp_kelvin = lightConfig.color_temp_kelvin;
-      } else if (lightConfig.color_temp !== undefined) {
-        colorData.color_temp = lightConfig.color_temp;
-      }
-      await callService("light", "turn_on", colorData);
+  return differences;
+}
 
-      // Wait for IKEA light to switch color mode
-      await delay(500);
+function diffSceneLights(a: SceneConfig["entities"], b: SceneConfig["entities"]): LightAttributeDiff[] {
+  const results: LightAttributeDiff[] = [];
 
-      // Second call: brightness
-      if (lightConfig.brightness !== undefined) {
-        await callService("light", "turn_on", {
-          entity_id: lightId,
-          brightness: lightConfig.brightness
-        });
-      }
+  for (const lightId of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    if (!(lightId in b)) {
+      results.push({ entity_id: lightId, status: "only_in_a" });
+    } else if (!(lightId in a)) {
+      results.push({ entity_id: lightId, status: "only_in_b" });
     } else {
-      // No color info, just set brightness
-      const serviceData: Record<string, unknown> = { entity_id: lightId };
-      if (lightConfig.brightness !== undefined) {
-        serviceData.brightness = lightConfig.brightness;
+      const differences = diffLightAttributes(a[lightId], b[lightId]);
+      if (Object.keys(differences).length > 0) {
+        results.push({ entity_id: lightId, status: "changed", differences });
       }
-      await callService("light", "turn_on", serviceData);
     }
-    lightsSet++;
   }
 
-  // Final verification for exclusive mode: ensure only scene lights are on
+  return results;
+}
+
+// Helper function to actually activate a scene from config
+// Returns a JSON report of matched, corrected and failed lights, or the plan for a dry run
+// snapshotAction saves the lights' previous state for scene_undo under that name
+async function activateSceneFromConfig(
+  sceneConfig: SceneConfig,
+  allLights: LightState[],
+  options: { notes?: string; dryRun?: boolean; snapshotAction?: string } = {}
+): Promise<string> {
+  const { notes, dryRun = false, snapshotAction } = options;
+  const mode = (sceneConfig.metadata?.mode as "exclusive" | "additive") || "exclusive";
+  const sceneEntityIds = Object.keys(sceneConfig.entities);
+  const transition = getSceneTransition(sceneConfig);
+  const transitionData = transition !== undefined ? { transition } : {};
+
+  const staysOn = (lightId: string): boolean => {
+    const lightConfig = sceneConfig.entities[lightId];
+    if (!lightConfig) return false;
+    return typeof lightConfig === "string" ? lightConfig !== "off" : lightConfig.state !== "off";
+  };
+
+  // In exclusive mode: turn off ALL lights first
+  // With a transition, lights that stay on in the scene fade directly to their target instead
+  const lightsOn = mode === "exclusive"
+    ? allLights
+      .filter((l) => l.state === "on")
+      .filter((l) => transition === undefined || !staysOn(l.entity_id))
+      .map((l) => l.entity_id)
+    : [];
+
+  // Find IKEA lights (device lookups are cached after the first activation)
+  const concurrency = getSceneConcurrency();
+  const ikeaFlags = await runWithConcurrency(
+    sceneEntityIds.map((lightId) => async () => isIkeaLight(lightId, await getLightManufacturer(lightId))),
+    concurrency
+  );
+  const ikeaLights = sceneEntityIds.filter((_, i) => ikeaFlags[i]);
+
+  // Lights with identical settings share one call, groups run in parallel
+  const groups = groupSceneLights(sceneConfig, sceneEntityIds, ikeaLights);
+
+  if (dryRun) {
+    const serviceCalls: PlannedServiceCall[] = [];
+    if (lightsOn.length > 0) {
+      serviceCalls.push({ domain: "light", service: "turn_off", data: { entity_id: lightsOn, ...transitionData } });
+    }
+    for (const group of groups) {
+      serviceCalls.push(...planSceneLight(group.entityIds, group.config, group.ikea, transition));
+    }
+
+    // Lights that are on now and end up off
+    const lightsOff = allLights
+      .filter((l) => l.state === "on" && !staysOn(l.entity_id))
+      .filter((l) => mode === "exclusive" || sceneConfig.entities[l.entity_id] !== undefined)
+      .map((l) => l.entity_id);
+
+    return JSON.stringify({
+      dry_run: true,
+      scene: sceneConfig.name,
+      mode,
+      ...(transition !== undefined ? { transition } : {}),
+      ...(notes ? { notes } : {}),
+      lights_off: lightsOff,
+      service_calls: serviceCalls,
+    }, null, 2);
+  }
+
+  // Exclusive scenes can change every light, additive ones only their own
+  if (snapshotAction) {
+    await saveLightSnapshot(snapshotAction, mode === "exclusive"
+      ? allLights
+      : allLights.filter((l) => sceneConfig.entities[l.entity_id] !== undefined));
+  }
+
+  if (lightsOn.length > 0) {
+    await callService("light", "turn_off", { entity_id: lightsOn, ...transitionData });
+    await delay(500);
+  }
+
+  const lightsSet = await applySceneLightGroups(groups, transition, `scene ${sceneConfig.name}`);
+
+  // Wait for scene lights to settle
+  await delay(SCENE_SETTLE_DELAY_MS + transitionWaitMs(transition));
+
+  // Exclusive mode: ensure only scene lights are on
   // This catches lights that didn't respond or were slow to turn off
   let extraTurnedOff = 0;
   if (mode === "exclusive") {
-    await delay(300); // Wait for scene lights to settle
     const currentLights = await getLights();
 
-    // Find lights that are ON but should be OFF (not in scene, or in scene with state "off")
-    const shouldBeOff = currentLights.filter((l) => {
-      if (l.state !== "on") return false;
-
-      // If not in scene, should be off
-      if (!sceneEntityIds.includes(l.entity_id)) return true;
-
-      // If in scene, check if scene wants it off
-      const sceneState = sceneConfig?.entities?.[l.entity_id];
-      if (typeof sceneState === "string" && sceneState === "off") return true;
-      if (typeof sceneState === "object" && sceneState?.state === "off") return true;
-
-      return false;
-    }).map((l) => l.entity_id);
+    // Lights that are ON but not in the scene (scene lights are checked by verification)
+    const shouldBeOff = currentLights
+      .filter((l) => l.state === "on" && !sceneEntityIds.includes(l.entity_id))
+      .map((l) => l.entity_id);
 
     if (shouldBeOff.length > 0) {
-      await callService("light", "turn_off", { entity_id: shouldBeOff });
+      await callService("light", "turn_off", { entity_id: shouldBeOff, ...transitionData });
       extraTurnedOff = shouldBeOff.length;
     }
   }
 
-  const modeInfo = mode === "exclusive" ? " (exclusive)" : "";
-  const ikeaInfo = ikeaLights.length > 0 ? ` (${ikeaLights.length} IKEA)` : "";
-  const extraInfo = extraTurnedOff > 0 ? ` (+${extraTurnedOff} retry)` : "";
-  return `${prefixMessage}Activated scene "${sceneConfig.name}" - set ${lightsSet} lights${modeInfo}${ikeaInfo}${extraInfo}`;
+  // Verify scene lights reached their config, retrying the ones that drifted
+  // Lights in a long fade are still on their way, checking them now would only restart the fade
+  const longFade = isLongTransition(transition);
+  const earlierFailures = takeDeferredCallFailures(`scene ${sceneConfig.name}`);
+  const verification: SceneVerification = longFade
+    ? { matched: [], corrected: [], failed: [] }
+    : await verifySceneLights(sceneConfig, ikeaLights, transition);
+
+  const report = {
+    scene: sceneConfig.name,
+    mode,
+    ...(transition !== undefined ? { transition } : {}),
+    ...(notes ? { notes } : {}),
+    ...(longFade ? { verification: `skipped - lights are still fading (transitions over ${MAX_TRANSITION_WAIT_MS / 1000}s are not waited for)` } : {}),
+    ...(earlierFailures.length > 0 ? { earlier_background_failures: earlierFailures } : {}),
+    summary: {
+      lights_set: lightsSet,
+      groups: groups.length,
+      concurrency,
+      ikea: ikeaLights.length,
+      extra_turned_off: extraTurnedOff,
+      matched: verification.matched.length,
+      corrected: verification.corrected.length,
+      failed: verification.failed.length,
+    },
+    ...verification,
+  };
+
+  return JSON.stringify(report, null, 2);
 }
 
 async function handleDeleteScene(args: { entity_id: string }): Promise<string> {
@@ -1776,28 +3635,24 @@ async function handleDeleteScene(args: { entity_id: string }): Promise<string> {
 
   // Save snapshot before deletion (for recovery)
   if (existingConfig?.entities) {
-    saveSceneSnapshot(configId, existingConfig.name, existingConfig.entities, "delete");
+    await saveSceneSnapshot(configId, existingConfig.name, existingConfig.entities, "delete", getSnapshotSettings(existingConfig));
   }
 
   await deleteSceneConfig(configId);
 
-  // Note: We keep the backup for potential recovery - mark as deleted but don't remove
-  // This allows users to restore deleted scenes if needed
-  const backup = getSceneBackup(configId);
-  if (backup) {
-    // Keep the backup but we could add a deletedAt timestamp in the future
-    // For now, just remove from backup as before
-    removeSceneBackup(configId);
-  }
+  // Keep the backup as a tombstone for recovery (scene_trash lists and purges them)
+  await tombstoneSceneBackup(configId);
 
-  return `Deleted scene "${entity_id}" (had ${lightCount} lights).`;
+  return `Deleted scene "${entity_id}" (had ${lightCount} lights). Its backup is kept for ${getBackupRetentionDays()} days, see scene_trash.`;
 }
 
 async function handleUpdateScene(args: {
   entity_id: string;
   entity_ids?: string[];
+  strategy?: "merge" | "replace" | "remove";
 }): Promise<string> {
-  let { entity_id, entity_ids } = args;
+  let { entity_id } = args;
+  const { entity_ids, strategy = "merge" } = args;
 
   // Add scene. prefix if not present
   if (!entity_id.startsWith("scene.")) {
@@ -1806,6 +3661,10 @@ async function handleUpdateScene(args: {
 
   validateEntityId(entity_id);
 
+  if (strategy === "remove" && (!entity_ids || entity_ids.length === 0)) {
+    return "Error: entity_ids is required for strategy \"remove\".";
+  }
+
   // Find the existing scene
   const scenes = await getScenes();
   const scene = scenes.find((s) => s.entity_id === entity_id);
@@ -1825,59 +3684,60 @@ async function handleUpdateScene(args: {
     return `Could not load config for scene "${entity_id}".`;
   }
 
-  // Save snapshot before making changes (for recovery)
-  if (existingConfig.entities) {
-    saveSceneSnapshot(configId, existingConfig.name, existingConfig.entities, "update");
-  }
-
-  // Get lights to capture
-  let lightsToCapture: LightState[];
-
-  if (entity_ids && entity_ids.length > 0) {
-    // Capture specified entities only
-    const allLights = await getLights();
-    lightsToCapture = allLights.filter((l) => entity_ids.includes(l.entity_id));
-  } else {
-    // Capture all lights that are on (these will be MERGED with existing)
-    const allLights = await getLights();
-    lightsToCapture = allLights.filter((l) => l.state === "on");
-  }
-
-  if (lightsToCapture.length === 0) {
-    return "No lights to update. Please turn on some lights or specify entity_ids.";
-  }
-
-  // Build new entities config by MERGING with existing
-  // This preserves existing lights while updating/adding new ones
   const existingEntities = existingConfig.entities || {};
   const entities: Record<string, Record<string, unknown>> = {};
 
-  // Copy existing entities, converting string shortcuts to full objects
-  for (const [entityId, entityConfig] of Object.entries(existingEntities)) {
-    if (typeof entityConfig === "string") {
-      // Convert "off" or "on" string to object format
-      entities[entityId] = { state: entityConfig };
+  if (strategy === "remove") {
+    // Drop the listed lights, keep everything else as is
+    const missing = entity_ids!.filter((id) => !(id in existingEntities));
+    if (missing.length === entity_ids!.length) {
+      return `None of the lights are in scene "${existingConfig.name}": ${missing.join(", ")}`;
+    }
+    for (const [entityId, entityConfig] of Object.entries(existingEntities)) {
+      if (!entity_ids!.includes(entityId)) {
+        entities[entityId] = normalizeSceneEntity(entityConfig);
+      }
+    }
+  } else {
+    // Get lights to capture
+    let lightsToCapture: LightState[];
+
+    if (entity_ids && entity_ids.length > 0) {
+      // Capture specified entities only
+      const allLights = await getLights();
+      lightsToCapture = allLights.filter((l) => entity_ids.includes(l.entity_id));
     } else {
-      entities[entityId] = entityConfig as Record<string, unknown>;
+      // Capture all lights that are on
+      const allLights = await getLights();
+      lightsToCapture = allLights.filter((l) => l.state === "on");
     }
-  }
 
-  // Track what we're changing
-  const updatedLights: string[] = [];
-  const addedLights: string[] = [];
+    if (lightsToCapture.length === 0) {
+      return "No lights to update. Please turn on some lights or specify entity_ids.";
+    }
 
-  for (const light of lightsToCapture) {
-    if (existingEntities[light.entity_id]) {
-      updatedLights.push(light.entity_id);
-    } else {
-      addedLights.push(light.entity_id);
+    // Merge keeps existing lights and updates/adds the captured ones,
+    // replace makes the scene exactly the captured set
+    if (strategy === "merge") {
+      // Copy existing entities, converting string shortcuts to full objects
+      for (const [entityId, entityConfig] of Object.entries(existingEntities)) {
+        entities[entityId] = normalizeSceneEntity(entityConfig);
+      }
+    }
+
+    for (const light of lightsToCapture) {
+      entities[light.entity_id] = buildEntityConfig(light);
     }
-    entities[light.entity_id] = buildEntityConfig(light);
+  }
+
+  // Save snapshot before making changes (for recovery)
+  if (existingConfig.entities) {
+    await saveSceneSnapshot(configId, existingConfig.name, existingConfig.entities, "update", getSnapshotSettings(existingConfig));
   }
 
   const mode = (existingConfig.metadata?.mode as "exclusive" | "additive") || "exclusive";
 
-  // Update scene config with merged entities, keeping other properties
+  // Update scene config with new entities, keeping other properties
   const updatedConfig: SceneConfig = {
     ...existingConfig,
     entities,
@@ -1886,84 +3746,475 @@ async function handleUpdateScene(args: {
   await saveSceneConfig(updatedConfig);
 
   // Update local backup
-  backupScene(configId, existingConfig.name, mode, entities);
+  await backupScene(configId, existingConfig.name, mode, entities, getSceneTransition(existingConfig));
 
-  // Build informative summary
-  const existingCount = Object.keys(existingEntities).length;
-  const newCount = Object.keys(entities).length;
+  // Per-light diff against the previous config
+  const diff = diffSceneEntities(existingEntities, entities);
 
   const changes: string[] = [];
-  if (updatedLights.length > 0) {
-    changes.push(`updated ${updatedLights.length}`);
+  if (Object.keys(diff.changed).length > 0) {
+    changes.push(`updated ${Object.keys(diff.changed).length}`);
   }
-  if (addedLights.length > 0) {
-    changes.push(`added ${addedLights.length}`);
+  if (diff.added.length > 0) {
+    changes.push(`added ${diff.added.length}`);
+  }
+  if (diff.removed.length > 0) {
+    changes.push(`removed ${diff.removed.length}`);
   }
   const changesSummary = changes.length > 0 ? changes.join(", ") : "no changes";
 
-  return `Updated scene "${existingConfig.name}" (${changesSummary}, total: ${newCount} lights, mode: ${mode}).`;
-}
-
-async function handleBlackout(args: { exclude?: string[]; create_scene?: boolean; user_confirmed?: boolean }): Promise<string> {
-  const { exclude = [], create_scene = false, user_confirmed } = args;
+  // Exclusive scenes turn off every light they don't list
+  const removedNote = diff.removed.length > 0 && mode === "exclusive"
+    ? " Removed lights will be turned off when this exclusive scene is activated."
+    : "";
 
-  // Safety check: require explicit user confirmation
-  if (!user_confirmed) {
-    return "BLOCKED: Blackout requires explicit user confirmation. Set user_confirmed=true only when user has explicitly requested to turn off all lights.";
-  }
+  return JSON.stringify({
+    message: `Updated scene "${existingConfig.name}" (${strategy}: ${changesSummary}, total: ${Object.keys(entities).length} lights, mode: ${mode}).${removedNote}`,
+    strategy,
+    diff,
+  }, null, 2);
+}
 
-  const allLights = await getLights();
+// Changes to one light in a scene config (scene_edit)
+interface SceneLightEdit {
+  state?: "on" | "off";
+  brightness?: number;
+  brightness_pct?: number;
+  rgb_color?: [number, number, number];
+  hs_color?: [number, number];
+  xy_color?: [number, number];
+  rgbw_color?: [number, number, number, number];
+  rgbww_color?: [number, number, number, number, number];
+  color_temp_kelvin?: number;
+  effect?: string;
+}
 
-  // Helper to check if a light should be excluded
-  const isExcluded = (light: LightState): boolean => {
-    if (exclude.length === 0) return false;
-    const entityLower = light.entity_id.toLowerCase();
-    const nameLower = (light.attributes.friendly_name || "").toLowerCase();
-    return exclude.some((pattern) => {
-      const patternLower = pattern.toLowerCase();
-      return entityLower.includes(patternLower) || nameLower.includes(patternLower);
-    });
-  };
+// Color attributes a scene entity can hold (one is used, see getSceneColorData)
+const SCENE_COLOR_ATTRIBUTES = [
+  'color_temp_kelvin', 'color_temp', 'rgb_color', 'hs_color', 'xy_color', 'rgbw_color', 'rgbww_color',
+] as const;
 
-  // Filter out excluded lights
-  const lightsToInclude = allLights.filter((l) => !isExcluded(l));
-  const excludedLights = allLights.filter((l) => isExcluded(l));
+// Apply an edit to a scene entity config without touching the light
+function editSceneEntity(
+  current: Record<string, unknown> | string | undefined,
+  edit: SceneLightEdit
+): Record<string, unknown> {
+  const colorKeys = SCENE_COLOR_ATTRIBUTES.filter((key) => (edit as Record<string, unknown>)[key] !== undefined);
+  if (colorKeys.length > 1) {
+    throw new Error(`Specify only one color setting per light, got: ${colorKeys.join(", ")}`);
+  }
+  if (edit.brightness !== undefined && edit.brightness_pct !== undefined) {
+    throw new Error("Specify either brightness or brightness_pct, not both");
+  }
 
-  let sceneMessage = "";
+  // A plain "on"/"off" shortcut becomes an object so attributes can be added
+  const entity: Record<string, unknown> = typeof current === "string" ? { state: current } : { ...(current || {}) };
 
-  // Only create/update Blackout scene if explicitly requested
-  if (create_scene) {
-    // Build entities config with ALL lights set to "off" - ONLY state, nothing else
-    // Using string format "off" instead of object to prevent HA from adding attributes
-    const entities: Record<string, string> = {};
-    for (const light of lightsToInclude) {
-      entities[light.entity_id] = "off";
+  // New color replaces the old one, and color_mode tells activation which attribute to use
+  if (colorKeys.length > 0) {
+    const key = colorKeys[0];
+    for (const attribute of SCENE_COLOR_ATTRIBUTES) {
+      delete entity[attribute];
     }
+    entity[key] = (edit as Record<string, unknown>)[key];
+    entity.color_mode = Object.keys(COLOR_MODE_ATTRIBUTES).find((mode) => COLOR_MODE_ATTRIBUTES[mode].includes(key));
+  }
 
-    // Find or create Blackout scene via config API
-    const scenes = await getScenes();
-    const existingBlackout = scenes.find(
-      (s) => s.attributes.friendly_name === "Blackout"
-    );
+  if (edit.brightness_pct !== undefined) {
+    entity.brightness = Math.round((edit.brightness_pct * 255) / 100);
+  }
+  if (edit.brightness !== undefined) {
+    entity.brightness = edit.brightness;
+  }
+  if (edit.effect !== undefined) {
+    entity.effect = edit.effect;
+  }
 
-    const sceneId = existingBlackout?.attributes.id || generateSceneId();
+  // Setting brightness or color means the light is on in the scene
+  const setsLight = colorKeys.length > 0 || edit.brightness !== undefined || edit.brightness_pct !== undefined;
+  if (edit.state !== undefined) {
+    entity.state = edit.state;
+  } else if (setsLight || entity.state === undefined) {
+    entity.state = "on";
+  }
 
-    // Save via config API with minimal entity data (just "off" string)
-    const sceneConfig: SceneConfig = {
-      id: sceneId,
-      name: "Blackout",
-      entities: entities,
-      metadata: {
-        mode: "exclusive",
-      },
-    };
+  return entity;
+}
 
-    await saveSceneConfig(sceneConfig);
+// Edit a scene config directly - no live light states are captured
+async function handleEditScene(args: {
+  entity_id: string;
+  name?: string;
+  icon?: string;
+  mode?: "exclusive" | "additive";
+  transition?: number;
+  lights?: Record<string, SceneLightEdit>;
+  remove?: string[];
+  dry_run?: boolean;
+}): Promise<string> {
+  let { entity_id } = args;
+  const { icon, mode, transition, lights = {}, remove = [], dry_run = false } = args;
+
+  // Add scene. prefix if not present
+  if (!entity_id.startsWith("scene.")) {
+    entity_id = `scene.${entity_id}`;
+  }
+
+  validateEntityId(entity_id);
+  for (const lightId of [...Object.keys(lights), ...remove]) {
+    validateEntityId(lightId);
+  }
+
+  // Find the existing scene
+  const scenes = await getScenes();
+  const scene = scenes.find((s) => s.entity_id === entity_id);
+
+  if (!scene) {
+    return `Scene "${entity_id}" not found.`;
+  }
+
+  const configId = scene.attributes.id;
+  if (!configId) {
+    return `Scene "${entity_id}" has no config ID - it may be a runtime scene that cannot be edited via API.`;
+  }
+
+  const existingConfig = await getSceneConfig(configId);
+  if (!existingConfig) {
+    return `Could not load config for scene "${entity_id}".`;
+  }
+
+  const changes: string[] = [];
+  const entities: SceneConfig["entities"] = { ...existingConfig.entities };
+
+  // New lights must exist in Home Assistant
+  const newLights = Object.keys(lights).filter((lightId) => !(lightId in entities));
+  if (newLights.length > 0) {
+    const allLightIds = new Set((await getLights()).map((l) => l.entity_id));
+    const unknown = newLights.filter((lightId) => !allLightIds.has(lightId));
+    if (unknown.length > 0) {
+      return `Error: unknown light(s): ${unknown.join(", ")}`;
+    }
+  }
+
+  for (const [lightId, edit] of Object.entries(lights)) {
+    changes.push(`${lightId in entities ? "edited" : "added"} ${lightId}`);
+    entities[lightId] = editSceneEntity(entities[lightId], edit);
+  }
+
+  for (const lightId of remove) {
+    if (!(lightId in entities)) {
+      return `Error: ${lightId} is not in scene "${existingConfig.name}".`;
+    }
+    delete entities[lightId];
+    changes.push(`removed ${lightId}`);
+  }
+
+  const name = args.name ? toTitleCase(args.name) : existingConfig.name;
+  if (name !== existingConfig.name) {
+    const clash = scenes.find(
+      (s) => s.entity_id !== entity_id && s.attributes.friendly_name?.toLowerCase() === name.toLowerCase()
+    );
+    if (clash) {
+      return `Scene "${name}" already exists. Choose another name.`;
+    }
+    changes.push(`renamed "${existingConfig.name}" → "${name}"`);
+  }
+
+  const oldMode = (existingConfig.metadata?.mode as "exclusive" | "additive") || "exclusive";
+  const newMode = mode || oldMode;
+  if (newMode !== oldMode) {
+    changes.push(`mode ${oldMode} → ${newMode}`);
+  }
+
+  // transition 0 removes the scene's default transition
+  const oldTransition = getSceneTransition(existingConfig);
+  const newTransition = transition === undefined ? oldTransition : transition > 0 ? transition : undefined;
+  if (newTransition !== oldTransition) {
+    changes.push(newTransition === undefined ? "transition removed" : `transition ${newTransition}s`);
+  }
+
+  if (icon !== undefined && icon !== existingConfig.icon) {
+    changes.push(`icon ${icon}`);
+  }
+
+  if (changes.length === 0) {
+    return `No changes for scene "${existingConfig.name}".`;
+  }
+
+  const updatedConfig: SceneConfig = {
+    ...existingConfig,
+    name,
+    entities,
+    ...(icon !== undefined ? { icon } : {}),
+    metadata: {
+      ...existingConfig.metadata,
+      mode: newMode,
+      transition: newTransition,
+    },
+  };
+  if (newTransition === undefined) {
+    delete updatedConfig.metadata!.transition;
+  }
+
+  if (dry_run) {
+    const sceneChange: PlannedSceneChange = {
+      scene_id: configId,
+      name,
+      change: "update",
+      diff: diffSceneEntities(existingConfig.entities, entities),
+    };
+    return JSON.stringify({ dry_run: true, changes, service_calls: [], scene_changes: [sceneChange] }, null, 2);
+  }
+
+  // Save snapshot before making changes (for recovery)
+  await saveSceneSnapshot(configId, existingConfig.name, existingConfig.entities, "update", getSnapshotSettings(existingConfig));
+
+  await saveSceneConfig(updatedConfig);
+
+  // Update local backup
+  await backupScene(configId, name, newMode, entities, newTransition);
+
+  // Exclusive scenes turn off every light they don't list
+  const removedNote = remove.length > 0 && newMode === "exclusive"
+    ? " Removed lights will be turned off when this exclusive scene is activated."
+    : "";
+
+  return `Edited scene "${name}": ${changes.join(", ")} (total: ${Object.keys(entities).length} lights, mode: ${newMode}).${removedNote}`;
+}
+
+// Scale brightness and shift color temperature of one scene entity (scene_clone)
+function transformSceneEntity(
+  entityConfig: Record<string, unknown> | string,
+  brightnessScalePct?: number,
+  colorTempShiftKelvin?: number
+): Record<string, unknown> | string {
+  if (typeof entityConfig === "string" || entityConfig.state === "off") {
+    return entityConfig;
+  }
+
+  const entity = { ...entityConfig };
+
+  if (brightnessScalePct !== undefined && typeof entity.brightness === "number") {
+    entity.brightness = Math.max(1, Math.min(255, Math.round((entity.brightness * brightnessScalePct) / 100)));
+  }
+
+  // Only white (color temperature) lights are shifted, clamped to the light's own range
+  if (colorTempShiftKelvin !== undefined && typeof entity.color_temp_kelvin === "number") {
+    const min = (entity.min_color_temp_kelvin as number | undefined) ?? 2000;
+    const max = (entity.max_color_temp_kelvin as number | undefined) ?? 6500;
+    const kelvin = Math.max(min, Math.min(max, entity.color_temp_kelvin + colorTempShiftKelvin));
+
+    // Drop the derived colors so activation can't pick a stale one
+    for (const attribute of SCENE_COLOR_ATTRIBUTES) {
+      delete entity[attribute];
+    }
+    entity.color_mode = "color_temp";
+    entity.color_temp_kelvin = kelvin;
+    entity.color_temp = kelvinToMired(kelvin);
+  }
+
+  return entity;
+}
+
+// Copy a scene under a new name, optionally transformed
+async function handleCloneScene(args: {
+  entity_id: string;
+  name: string;
+  entity_ids?: string[];
+  brightness_scale_pct?: number;
+  color_temp_shift_kelvin?: number;
+  mode?: "exclusive" | "additive";
+  icon?: string;
+}): Promise<string> {
+  let { entity_id } = args;
+  const { entity_ids, brightness_scale_pct, color_temp_shift_kelvin, icon } = args;
+  const name = toTitleCase(args.name);
+
+  // Add scene. prefix if not present
+  if (!entity_id.startsWith("scene.")) {
+    entity_id = `scene.${entity_id}`;
+  }
+
+  validateEntityId(entity_id);
+
+  if (brightness_scale_pct !== undefined && brightness_scale_pct <= 0) {
+    return "Error: brightness_scale_pct must be greater than 0.";
+  }
+
+  // Find the source scene
+  const scenes = await getScenes();
+  const scene = scenes.find((s) => s.entity_id === entity_id);
+
+  if (!scene) {
+    return `Scene "${entity_id}" not found.`;
+  }
+
+  const existingScene = scenes.find(
+    (s) => s.attributes.friendly_name?.toLowerCase() === name.toLowerCase()
+  );
+  if (existingScene) {
+    return `Scene "${name}" already exists. Use scene_update to modify it, or scene_delete to remove it first.`;
+  }
+
+  const configId = scene.attributes.id;
+  if (!configId) {
+    return `Scene "${entity_id}" has no config ID - it may be a runtime scene that cannot be cloned.`;
+  }
+
+  const sourceConfig = await getSceneConfig(configId);
+  if (!sourceConfig) {
+    return `Could not load config for scene "${entity_id}".`;
+  }
+
+  // Restrict to a subset of lights
+  let sourceEntities = sourceConfig.entities;
+  if (entity_ids && entity_ids.length > 0) {
+    const missing = entity_ids.filter((id) => !(id in sourceEntities));
+    if (missing.length > 0) {
+      return `Error: not in scene "${sourceConfig.name}": ${missing.join(", ")}`;
+    }
+    sourceEntities = Object.fromEntries(entity_ids.map((id) => [id, sourceConfig.entities[id]]));
+  }
+
+  const entities: SceneConfig["entities"] = {};
+  for (const [lightId, entityConfig] of Object.entries(sourceEntities)) {
+    entities[lightId] = transformSceneEntity(entityConfig, brightness_scale_pct, color_temp_shift_kelvin);
+  }
+
+  const mode = args.mode || (sourceConfig.metadata?.mode as "exclusive" | "additive") || "exclusive";
+  const transition = getSceneTransition(sourceConfig);
+
+  // Create scene config
+  const sceneId = generateSceneId();
+  const sceneConfig: SceneConfig = {
+    id: sceneId,
+    name,
+    entities,
+    metadata: {
+      mode,
+      ...(transition !== undefined ? { transition } : {}),
+    },
+  };
+
+  const sceneIcon = icon ?? sourceConfig.icon;
+  if (sceneIcon) {
+    sceneConfig.icon = sceneIcon;
+  }
+
+  // Save to Home Assistant
+  await saveSceneConfig(sceneConfig);
+
+  // Backup locally for resilience
+  await backupScene(sceneId, name, mode, entities, transition);
+
+  const transforms: string[] = [];
+  if (entity_ids && entity_ids.length > 0) {
+    transforms.push(`${entity_ids.length} of ${Object.keys(sourceConfig.entities).length} lights`);
+  }
+  if (brightness_scale_pct !== undefined) {
+    transforms.push(`brightness ${brightness_scale_pct}%`);
+  }
+  if (color_temp_shift_kelvin !== undefined) {
+    transforms.push(`color temp ${color_temp_shift_kelvin > 0 ? "+" : ""}${color_temp_shift_kelvin}K`);
+  }
+  const transformInfo = transforms.length > 0 ? ` (${transforms.join(", ")})` : "";
+
+  return `Created scene "${name}" from "${sourceConfig.name}"${transformInfo} with ${Object.keys(entities).length} lights [${mode}]. The scene is now available in Home Assistant UI.`;
+}
+
+async function handleBlackout(args: {
+  exclude?: string[];
+  area?: string;
+  floor?: string;
+  create_scene?: boolean;
+  transition?: number;
+  dry_run?: boolean;
+  user_confirmed?: boolean;
+}): Promise<string> {
+  const { exclude = [], create_scene = false, transition, dry_run = false, user_confirmed } = args;
+
+  // Safety check: require explicit user confirmation (a dry run changes nothing)
+  if (!user_confirmed && !dry_run) {
+    return "BLOCKED: Blackout requires explicit user confirmation. Set user_confirmed=true only when user has explicitly requested to turn off all lights.";
+  }
+
+  // Limit to the selected area/floor if given
+  const allLights = await filterLightsBySelector(await getLights(), args);
+
+  // Helper to check if a light should be excluded
+  const isExcluded = await buildExclusionMatcher(exclude);
+
+  // Filter out excluded lights
+  const lightsToInclude = allLights.filter((l) => !isExcluded(l));
+  const excludedLights = allLights.filter((l) => isExcluded(l));
+
+  // Turn off only non-excluded lights that are on
+  const lightsToTurnOff = lightsToInclude.filter((l) => l.state === "on");
+  const turnOffCall: PlannedServiceCall = {
+    domain: "light",
+    service: "turn_off",
+    data: {
+      entity_id: lightsToTurnOff.map((l) => l.entity_id),
+      ...(transition !== undefined ? { transition } : {}),
+    },
+  };
+
+  let sceneMessage = "";
+  let sceneChange: PlannedSceneChange | null = null;
+
+  // Only create/update Blackout scene if explicitly requested
+  if (create_scene) {
+    // Build entities config with ALL lights set to "off" - ONLY state, nothing else
+    // Using string format "off" instead of object to prevent HA from adding attributes
+    const entities: Record<string, string> = {};
+    for (const light of lightsToInclude) {
+      entities[light.entity_id] = "off";
+    }
+
+    // Find or create Blackout scene via config API
+    const scenes = await getScenes();
+    const existingBlackout = scenes.find(
+      (s) => s.attributes.friendly_name === "Blackout"
+    );
+
+    const sceneId = existingBlackout?.attributes.id || generateSceneId();
 
-    // Backup locally
-    backupScene(sceneId, "Blackout", "exclusive", entities);
+    if (dry_run) {
+      const existingConfig = existingBlackout?.attributes.id ? await getSceneConfig(sceneId) : null;
+      sceneChange = {
+        scene_id: sceneId,
+        name: "Blackout",
+        change: existingConfig ? "update" : "create",
+        diff: diffSceneEntities(existingConfig?.entities ?? {}, entities),
+      };
+    } else {
+      // Save via config API with minimal entity data (just "off" string)
+      const sceneConfig: SceneConfig = {
+        id: sceneId,
+        name: "Blackout",
+        entities: entities,
+        metadata: {
+          mode: "exclusive",
+        },
+      };
+
+      await saveSceneConfig(sceneConfig);
+
+      // Backup locally
+      await backupScene(sceneId, "Blackout", "exclusive", entities);
+
+      sceneMessage = `'Blackout' scene ${existingBlackout ? "updated" : "created"} (${lightsToInclude.length} lights). `;
+    }
+  }
 
-    sceneMessage = `'Blackout' scene ${existingBlackout ? "updated" : "created"} (${lightsToInclude.length} lights). `;
+  if (dry_run) {
+    return JSON.stringify({
+      dry_run: true,
+      lights_off: lightsToTurnOff.map((l) => l.entity_id),
+      excluded: excludedLights.map((l) => l.entity_id),
+      service_calls: lightsToTurnOff.length > 0 ? [turnOffCall] : [],
+      scene_changes: sceneChange ? [sceneChange] : [],
+    }, null, 2);
   }
 
   // Add exclusion info to message
@@ -1972,15 +4223,12 @@ async function handleBlackout(args: { exclude?: string[]; create_scene?: boolean
     sceneMessage += `Excluded: ${excludedNames}. `;
   }
 
-  // Turn off only non-excluded lights that are on
-  const lightsToTurnOff = lightsToInclude.filter((l) => l.state === "on");
-
   if (lightsToTurnOff.length === 0) {
     return `${sceneMessage}All lights are already off.`;
   }
 
-  const entityIds = lightsToTurnOff.map((l) => l.entity_id);
-  await callService("light", "turn_off", { entity_id: entityIds });
+  await saveLightSnapshot("scene_blackout", lightsToTurnOff);
+  await runServiceCalls([turnOffCall]);
 
   return `${sceneMessage}Turned off ${lightsToTurnOff.length} lights.`;
 }
@@ -2193,6 +4441,14 @@ async function handleDiagnose(args: { test_connectivity?: boolean; user_confirme
     }
   }
 
+  // Calls sent after a long fade that failed once their tool call had returned
+  if (deferredCallFailures.length > 0) {
+    report += "\nEPÄONNISTUNEET TAUSTAKUTSUT:\n";
+    for (const failure of deferredCallFailures) {
+      report += `  ✗ ${failure.action} (${failure.failedAt}): ${failure.error}\n`;
+    }
+  }
+
   // Recommendations
   report += "\nSUOSITUKSET:\n";
 
@@ -2246,6 +4502,11 @@ async function handleDiagnose(args: { test_connectivity?: boolean; user_confirme
     }
   }
 
+  const deletedCount = Object.keys(getDeletedSceneBackups()).length;
+  if (deletedCount > 0) {
+    report += `  🗑️ ${deletedCount} poistettua sceneä säilytetty (scene_trash)\n`;
+  }
+
   return report;
 }
 
@@ -2253,9 +4514,10 @@ async function handleFix(args: {
   action: "fix_all" | "fix_scene" | "test_scene" | "restore_from_backup";
   scene_name?: string;
   issues?: string[];
+  dry_run?: boolean;
   user_confirmed?: boolean;
 }): Promise<string> {
-  const { action, scene_name, issues, user_confirmed } = args;
+  const { action, scene_name, issues, dry_run = false, user_confirmed } = args;
 
   if (action === "fix_all") {
     const allLights = await getLights();
@@ -2263,6 +4525,7 @@ async function handleFix(args: {
     const allLightIds = new Set(allLights.map((l) => l.entity_id));
     let fixedCount = 0;
     let fixReport = "KORJAUKSET:\n\n";
+    const sceneChanges: PlannedSceneChange[] = [];
 
     for (const scene of allScenes) {
       const configId = scene.attributes.id;
@@ -2271,6 +4534,7 @@ async function handleFix(args: {
       const config = await getSceneConfig(configId);
       if (!config) continue;
 
+      const originalEntities = { ...config.entities };
       let modified = false;
       const sceneName = scene.attributes.friendly_name || scene.entity_id;
 
@@ -2320,12 +4584,23 @@ async function handleFix(args: {
         }
       }
 
-      if (modified) {
+      if (modified && dry_run) {
+        sceneChanges.push({
+          scene_id: configId,
+          name: sceneName,
+          change: "update",
+          diff: diffSceneEntities(originalEntities, config.entities),
+        });
+      } else if (modified) {
         await saveSceneConfig(config);
         fixedCount++;
       }
     }
 
+    if (dry_run) {
+      return JSON.stringify({ dry_run: true, action, service_calls: [], scene_changes: sceneChanges }, null, 2);
+    }
+
     if (fixedCount === 0) {
       return "Ei korjattavaa - kaikki scenet kunnossa!";
     }
@@ -2453,6 +4728,8 @@ async function handleFix(args: {
   }
 
   if (action === "restore_from_backup") {
+    // Expired deleted scenes must not come back
+    await purgeExpiredSceneBackups();
     const backups = getAllSceneBackups();
     const allScenes = await getScenes();
     const allLights = await getLights();
@@ -2465,10 +4742,10 @@ async function handleFix(args: {
     const backupsToRestore: [string, LocalSceneBackup][] = [];
 
     if (scene_name) {
-      // Restore specific scene by name
-      const entry = Object.entries(backups).find(
-        ([, backup]) => backup.name.toLowerCase() === scene_name.toLowerCase()
-      );
+      // Restore specific scene by name - deleted scenes only when asked for by name
+      const byName = ([, backup]: [string, LocalSceneBackup]) => backup.name.toLowerCase() === scene_name.toLowerCase();
+      const entry = Object.entries(backups).find(byName)
+        || Object.entries(getDeletedSceneBackups()).find(byName);
       if (!entry) {
         return `Scene "${scene_name}" not found in local backup.`;
       }
@@ -2487,6 +4764,8 @@ async function handleFix(args: {
       return "Ei palautettavia scenejä - kaikki varmuuskopioidut scenet ovat jo HA:ssa.";
     }
 
+    const sceneChanges: PlannedSceneChange[] = [];
+
     for (const [sceneId, backup] of backupsToRestore) {
       // Update entities to match current system
       // Remove lights that no longer exist, add new lights for exclusive mode
@@ -2514,10 +4793,25 @@ async function handleFix(args: {
         entities: updatedEntities,
         metadata: {
           mode: backup.mode,
+          ...(backup.transition !== undefined ? { transition: backup.transition } : {}),
         },
       };
 
+      if (dry_run) {
+        const existingConfig = await getSceneConfig(sceneId);
+        sceneChanges.push({
+          scene_id: sceneId,
+          name: backup.name,
+          change: existingConfig ? "update" : "create",
+          diff: diffSceneEntities(existingConfig?.entities ?? {}, updatedEntities),
+        });
+        continue;
+      }
+
       await saveSceneConfig(sceneConfig);
+      if (backup.deletedAt) {
+        await backupScene(sceneId, backup.name, backup.mode, updatedEntities, backup.transition);
+      }
       restoredCount++;
 
       const origCount = Object.keys(backup.entities).length;
@@ -2525,12 +4819,71 @@ async function handleFix(args: {
       restoreReport += `  ✓ ${backup.name} palautettu (${origCount} → ${newCount} valoa)\n`;
     }
 
+    if (dry_run) {
+      return JSON.stringify({ dry_run: true, action, service_calls: [], scene_changes: sceneChanges }, null, 2);
+    }
+
     return `${restoreReport}\nPalautettu ${restoredCount} sceneä.`;
   }
 
   return "Unknown action";
 }
 
+// List or purge scenes deleted via scene_delete (backup tombstones)
+async function handleTrash(args: {
+  action?: "list" | "purge";
+  scene?: string;
+  user_confirmed?: boolean;
+}): Promise<string> {
+  const { action = "list", scene, user_confirmed } = args;
+  await purgeExpiredSceneBackups();
+  const deleted = Object.entries(getDeletedSceneBackups());
+
+  let targets = deleted;
+  if (scene) {
+    const sceneName = scene.replace(/^scene\./, "").replace(/_/g, " ").toLowerCase();
+    targets = deleted.filter(([sceneId, backup]) => sceneId === scene || backup.name.toLowerCase() === sceneName);
+    if (targets.length === 0) {
+      return `No deleted scene "${scene}" in backup.`;
+    }
+  }
+
+  if (targets.length === 0) {
+    return `No deleted scenes in backup. Deleted scenes are kept for ${getBackupRetentionDays()} days.`;
+  }
+
+  const entries = targets.map(([sceneId, backup]) => ({
+    scene_id: sceneId,
+    name: backup.name,
+    mode: backup.mode,
+    lights: Object.keys(backup.entities).length,
+    deleted_at: backup.deletedAt,
+    expires_at: getTombstoneExpiry(backup).toISOString(),
+  }));
+
+  if (action === "list") {
+    return JSON.stringify({
+      retention_days: getBackupRetentionDays(),
+      deleted: entries,
+      next_step: "Restore with scene_fix action=\"restore_from_backup\" scene_name=<name> or scene_restore_snapshot, or remove for good with action=\"purge\".",
+    }, null, 2);
+  }
+
+  if (!user_confirmed) {
+    return JSON.stringify({
+      preview: true,
+      would_purge: entries,
+      next_step: "Set user_confirmed=true to permanently remove these backups. Scene history snapshots are kept.",
+    }, null, 2);
+  }
+
+  for (const [sceneId] of targets) {
+    await removeSceneBackup(sceneId);
+  }
+
+  return `Purged ${targets.length} deleted scene backup(s): ${targets.map(([, backup]) => backup.name).join(", ")}.`;
+}
+
 // Sync backup from Home Assistant
 async function handleSync(): Promise<string> {
   const result = await syncBackupFromHA();
@@ -2551,23 +4904,143 @@ async function handleSync(): Promise<string> {
   return response;
 }
 
-// View scene change history
-function handleHistory(args: { scene_id?: string; limit?: number }): string {
-  const { scene_id, limit = 10 } = args;
-  const snapshots = getSceneSnapshots(scene_id);
+// Backup archives are read and written only in this directory (tools can be called over HTTP)
+const BACKUPS_DIR = join(CONFIG_DIR, "backups");
 
-  if (snapshots.length === 0) {
-    if (scene_id) {
-      return `No history found for scene "${scene_id}".`;
-    }
-    return "No scene change history found. Changes are recorded when scenes are updated or deleted.";
+// Resolve a caller-given file name inside one of the server's data directories
+// Relative names and absolute paths inside dir are accepted, anything that leaves it is refused
+function resolveDataFile(dir: string, file: string): string {
+  const resolved = resolvePath(dir, file);
+  const rel = relative(dir, resolved);
+  if (file.split(/[\\/]/).includes("..") || !rel || rel.split(sep)[0] === ".." || isAbsolute(rel)) {
+    throw new Error(`File must be inside ${dir}: ${file}`);
   }
+  return resolved;
+}
+
+// Write the whole local store (scenes, deleted scenes, history, undo states) to one archive file
+function handleBackupExport(args: { file?: string; user_confirmed?: boolean }): string {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const file = resolveDataFile(BACKUPS_DIR, args.file || `ha-mcp-server-backup-${timestamp}.json`);
+  if (existsSync(file) && !args.user_confirmed) {
+    return `${file} already exists. Choose another file name, or set user_confirmed=true to replace it.`;
+  }
+  const store = loadScenesBackup();
+
+  const archive: BackupArchive = {
+    format: BACKUP_ARCHIVE_FORMAT,
+    version: BACKUP_ARCHIVE_VERSION,
+    created_at: new Date().toISOString(),
+    ...(config.ha_url ? { ha_url: config.ha_url } : {}),
+    store,
+  };
+
+  writeBackupArchive(file, archive, { overwrite: args.user_confirmed });
+
+  const sceneCount = Object.keys(store.scenes).length;
+  const deletedCount = Object.values(store.scenes).filter((b) => b.deletedAt).length;
+  return `Backup written to ${file}: ${sceneCount} scenes (${deletedCount} deleted), ${store.snapshots?.length ?? 0} history snapshots, ${store.lightSnapshots?.length ?? 0} undo states. The Home Assistant token is not included.`;
+}
+
+// Restore a backup archive into the local store, merging with or replacing it
+// Shows a preview unless user_confirmed=true
+async function handleBackupRestore(args: {
+  file: string;
+  strategy?: "merge" | "replace";
+  user_confirmed?: boolean;
+}): Promise<string> {
+  const { strategy = "merge", user_confirmed } = args;
+  const file = resolveDataFile(BACKUPS_DIR, args.file);
+
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(file, "utf-8"));
+  } catch (err) {
+    throw new Error(`Could not read backup archive ${file}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  const archive = validateBackupArchive(data);
+
+  // Archives from older versions carry an older store format
+  const incoming = migrateScenesBackup(archive.store as unknown as Record<string, unknown>);
+
+  // Plan and write under the store lock, so changes from other instances aren't overwritten
+  return withScenesBackupLock(() => {
+    const local = loadScenesBackup();
+    const sceneName = (store: ScenesBackupStore) => (sceneId: string) => store.scenes[sceneId].name;
+    let store: ScenesBackupStore;
+    let added: string[];
+    let updated: string[];
+    let removed: string[] = [];
+
+    if (strategy === "replace") {
+      store = incoming;
+      added = Object.keys(incoming.scenes).filter((id) => !local.scenes[id]);
+      updated = Object.keys(incoming.scenes).filter((id) => local.scenes[id]);
+      removed = Object.keys(local.scenes).filter((id) => !incoming.scenes[id]);
+    } else {
+      ({ store, added, updated } = mergeScenesBackupStores(local, incoming));
+    }
+
+    // Only fill in the URL - a configured connection is never overwritten
+    const setUrl = !!archive.ha_url && !config.ha_url;
+
+    const summary = {
+      archive: { created_at: archive.created_at, version: archive.version },
+      strategy,
+      scenes_added: added.map(sceneName(incoming)),
+      scenes_updated: updated.map(sceneName(incoming)),
+      ...(strategy === "replace" ? { scenes_removed: removed.map(sceneName(local)) } : {}),
+      history_snapshots: store.snapshots?.length ?? 0,
+      undo_states: store.lightSnapshots?.length ?? 0,
+      ...(setUrl ? { ha_url: archive.ha_url } : {}),
+    };
+
+    if (!user_confirmed) {
+      return JSON.stringify({
+        preview: true,
+        ...summary,
+        next_step: "Set user_confirmed=true to restore this backup.",
+      }, null, 2);
+    }
+
+    saveScenesBackup(store);
+    if (setUrl) {
+      config = { ha_url: archive.ha_url!, ha_token: "" };
+      saveConfig(config);
+    }
+
+    return JSON.stringify({
+      restored: true,
+      ...summary,
+      next_step: setUrl
+        ? "Run scene_configure with the Home Assistant URL and a token, then scene_fix action=\"restore_from_backup\" to recreate scenes missing from Home Assistant."
+        : "Run scene_fix action=\"restore_from_backup\" to recreate scenes missing from Home Assistant.",
+    }, null, 2);
+  });
+}
+
+// View scene change history
+function handleHistory(args: { scene_id?: string; limit?: number }): string {
+  const { scene_id, limit = 10 } = args;
+  const snapshots = getSceneSnapshots(scene_id);
+
+  if (snapshots.length === 0) {
+    if (scene_id) {
+      return `No history found for scene "${scene_id}".`;
+    }
+    return "No scene change history found. Changes are recorded when scenes are updated or deleted.";
+  }
+
+  const limited = snapshots.slice(0, limit);
+  let response = scene_id
+    ? `History for scene "${scene_id}" (${limited.length} of ${snapshots.length} entries):\n\n`
+    : `Recent scene changes (${limited.length} of ${snapshots.length} entries):\n\n`;
+
+  // Index within the scene's own history, as used by scene_diff
+  const allSnapshots = getSceneSnapshots();
+  const sceneIndex = (snapshot: SceneSnapshot): number =>
+    allSnapshots.filter((s) => s.sceneId === snapshot.sceneId).findIndex((s) => s.timestamp === snapshot.timestamp);
 
-  const limited = snapshots.slice(0, limit);
-  let response = scene_id
-    ? `History for scene "${scene_id}" (${limited.length} of ${snapshots.length} entries):\n\n`
-    : `Recent scene changes (${limited.length} of ${snapshots.length} entries):\n\n`;
-
   for (const snapshot of limited) {
     const date = new Date(snapshot.timestamp);
     const formattedDate = date.toLocaleString("fi-FI", {
@@ -2583,33 +5056,823 @@ function handleHistory(args: { scene_id?: string; limit?: number }): string {
     response += `${operationEmoji} ${formattedDate} - ${snapshot.name}\n`;
     response += `   ID: ${snapshot.sceneId}\n`;
     response += `   Operation: ${snapshot.operation}\n`;
-    response += `   Lights: ${lightCount}\n\n`;
+    response += `   Lights: ${lightCount}\n`;
+    response += `   Snapshot: ${sceneIndex(snapshot)} (${snapshot.timestamp})\n\n`;
   }
 
-  response += `Use scene_fix with action="restore_from_backup" to restore a scene.`;
+  response += `Use scene_diff with snapshot=<index> to see what changed, or scene_restore_snapshot to bring a version back.`;
 
   return response;
 }
 
-// Main server setup
-const server = new Server(
+// Find a scene by entity_id or name and load its config
+async function loadSceneConfigByEntity(entityIdOrName: string): Promise<SceneConfig> {
+  const entityId = entityIdOrName.startsWith("scene.") ? entityIdOrName : `scene.${entityIdOrName}`;
+  const sceneName = entityIdOrName.replace(/^scene\./, "").toLowerCase();
+
+  const scenes = await getScenes();
+  const scene = scenes.find((s) => s.entity_id === entityId)
+    || scenes.find((s) => s.attributes.friendly_name?.toLowerCase() === sceneName);
+
+  if (!scene) {
+    throw new Error(`Scene "${entityIdOrName}" not found.`);
+  }
+  if (!scene.attributes.id) {
+    throw new Error(`Scene "${scene.entity_id}" has no config ID - it may be a runtime scene.`);
+  }
+
+  const sceneConfig = await getSceneConfig(scene.attributes.id);
+  if (!sceneConfig) {
+    throw new Error(`Could not load config for scene "${scene.entity_id}".`);
+  }
+  return sceneConfig;
+}
+
+// Attribute-level diff of a scene against another scene, a snapshot or live light state
+async function handleDiffScene(args: {
+  entity_id: string;
+  other_scene?: string;
+  snapshot?: number | string;
+}): Promise<string> {
+  const { entity_id, other_scene, snapshot } = args;
+
+  const sceneConfig = await loadSceneConfigByEntity(entity_id);
+  const mode = (sceneConfig.metadata?.mode as "exclusive" | "additive") || "exclusive";
+
+  let against: string;
+  let otherEntities: SceneConfig["entities"];
+
+  if (other_scene) {
+    const otherConfig = await loadSceneConfigByEntity(other_scene);
+    against = `scene "${otherConfig.name}"`;
+    otherEntities = otherConfig.entities;
+  } else if (snapshot !== undefined) {
+    const found = findSceneSnapshot(sceneConfig.id, snapshot);
+    if (!found) {
+      return `Snapshot "${snapshot}" not found for scene "${sceneConfig.name}". Use scene_history to list snapshots.`;
+    }
+    against = `snapshot ${found.timestamp} (before ${found.operation})`;
+    otherEntities = found.entities;
+  } else {
+    // Live state of the scene's lights, plus lights an exclusive scene would turn off
+    against = "live state";
+    otherEntities = {};
+    for (const light of await getLights()) {
+      if (light.entity_id in sceneConfig.entities || (mode === "exclusive" && light.state === "on")) {
+        otherEntities[light.entity_id] = buildEntityConfig(light);
+      }
+    }
+  }
+
+  const lights = diffSceneLights(sceneConfig.entities, otherEntities);
+  const total = new Set([...Object.keys(sceneConfig.entities), ...Object.keys(otherEntities)]).size;
+
+  return JSON.stringify({
+    a: `scene "${sceneConfig.name}"`,
+    b: against,
+    summary: {
+      same: total - lights.length,
+      changed: lights.filter((l) => l.status === "changed").length,
+      only_in_a: lights.filter((l) => l.status === "only_in_a").length,
+      only_in_b: lights.filter((l) => l.status === "only_in_b").length,
+    },
+    lights,
+  }, null, 2);
+}
+
+// Recreate a scene from a history snapshot, including deleted scenes
+// Shows a preview unless user_confirmed=true
+async function handleRestoreSnapshot(args: {
+  scene: string;
+  snapshot?: number | string;
+  name?: string;
+  user_confirmed?: boolean;
+}): Promise<string> {
+  const { scene, snapshot = 0, user_confirmed } = args;
+
+  // Match by scene ID, snapshot name or current HA entity (deleted scenes only exist in snapshots)
+  const sceneName = scene.replace(/^scene\./, "").replace(/_/g, " ").toLowerCase();
+  const haScenes = await getScenes();
+  const haScene = haScenes.find((s) => s.entity_id === scene || s.entity_id === `scene.${scene}`);
+  const allSnapshots = getSceneSnapshots();
+  const match = allSnapshots.find((s) => s.sceneId === scene || s.sceneId === haScene?.attributes.id)
+    || allSnapshots.find((s) => s.name.toLowerCase() === sceneName);
+
+  if (!match) {
+    return `No history found for scene "${scene}". Use scene_history to list snapshots.`;
+  }
+
+  const sceneId = match.sceneId;
+  const found = findSceneSnapshot(sceneId, snapshot);
+  if (!found) {
+    return `Snapshot "${snapshot}" not found for scene "${match.name}". Use scene_history to list snapshots.`;
+  }
+
+  // Another scene may have taken the name since (e.g. the deleted scene was recreated under a new ID)
+  const name = args.name ? toTitleCase(args.name) : found.name;
+  const nameClash = haScenes.find(
+    (s) => s.attributes.friendly_name?.toLowerCase() === name.toLowerCase() && s.attributes.id !== sceneId
+  );
+  if (nameClash && !nameClash.attributes.id) {
+    return `Scene "${name}" already exists (${nameClash.entity_id}) and can't be replaced via the API. Choose another name.`;
+  }
+  if (nameClash && args.name) {
+    return `Scene "${name}" already exists (${nameClash.entity_id}). Choose another name.`;
+  }
+
+  // Older snapshots don't store the mode, fall back to the backup or the current HA config
+  const existingConfig = await getSceneConfig(sceneId);
+  const mode = found.mode
+    || getSceneBackup(sceneId, { includeDeleted: true })?.mode
+    || (existingConfig?.metadata?.mode as "exclusive" | "additive" | undefined)
+    || "exclusive";
+
+  // Lights that no longer exist can't be restored
+  const allLightIds = new Set((await getLights()).map((l) => l.entity_id));
+  const entities: SceneConfig["entities"] = {};
+  const missingLights: string[] = [];
+  for (const [lightId, entityConfig] of Object.entries(found.entities)) {
+    if (allLightIds.has(lightId)) {
+      entities[lightId] = entityConfig;
+    } else {
+      missingLights.push(lightId);
+    }
+  }
+
+  const sceneConfig: SceneConfig = {
+    id: sceneId,
+    name,
+    entities,
+    ...(found.icon ? { icon: found.icon } : {}),
+    metadata: {
+      mode,
+      ...(found.transition !== undefined ? { transition: found.transition } : {}),
+    },
+  };
+
+  if (!user_confirmed) {
+    const sceneChange: PlannedSceneChange = {
+      scene_id: sceneId,
+      name,
+      change: existingConfig ? "update" : "create",
+      diff: diffSceneEntities(existingConfig?.entities ?? {}, entities),
+    };
+    return JSON.stringify({
+      preview: true,
+      snapshot: { timestamp: found.timestamp, operation: found.operation },
+      mode,
+      ...(missingLights.length > 0 ? { skipped_missing_lights: missingLights } : {}),
+      ...(nameClash ? { name_conflict: { entity_id: nameClash.entity_id, scene_id: nameClash.attributes.id } } : {}),
+      scene_changes: [sceneChange],
+      next_step: nameClash
+        ? `Scene "${name}" already exists (${nameClash.entity_id}). Set user_confirmed=true to delete it and restore this snapshot in its place, or give another name.`
+        : "Set user_confirmed=true to restore this snapshot.",
+    }, null, 2);
+  }
+
+  // Replace the scene with the same name, keeping it recoverable like scene_delete does
+  if (nameClash) {
+    const clashId = nameClash.attributes.id!;
+    const clashConfig = await getSceneConfig(clashId);
+    if (clashConfig?.entities) {
+      await saveSceneSnapshot(clashId, clashConfig.name, clashConfig.entities, "delete", getSnapshotSettings(clashConfig));
+    }
+    await deleteSceneConfig(clashId);
+    await tombstoneSceneBackup(clashId);
+  }
+
+  // Keep the current version in history so the restore can be reverted
+  if (existingConfig) {
+    await saveSceneSnapshot(sceneId, existingConfig.name, existingConfig.entities, "update", getSnapshotSettings(existingConfig));
+  }
+
+  await saveSceneConfig(sceneConfig);
+  await backupScene(sceneId, name, mode, entities, found.transition);
+
+  const missingInfo = missingLights.length > 0 ? ` Skipped missing lights: ${missingLights.join(", ")}.` : "";
+  const replacedInfo = nameClash ? ` Replaced ${nameClash.entity_id} (kept in scene_trash).` : "";
+  return `${existingConfig ? "Restored" : "Recreated"} scene "${name}" (ID ${sceneId}, ${mode}) from snapshot ${found.timestamp} with ${Object.keys(entities).length} lights.${replacedInfo}${missingInfo}`;
+}
+
+// Three-way merge of a scene's local backup and its HA config, saved once conflicts are resolved
+// Shows the merge and its conflicts unless user_confirmed=true
+async function handleResolveConflict(args: {
+  entity_id: string;
+  resolutions?: Record<string, MergeSide>;
+  default?: MergeSide;
+  user_confirmed?: boolean;
+}): Promise<string> {
+  const { entity_id, resolutions = {}, user_confirmed } = args;
+
+  for (const [key, side] of Object.entries(resolutions)) {
+    if (side !== "ours" && side !== "theirs") {
+      throw new Error(`Resolution for "${key}" must be "ours" or "theirs".`);
+    }
+  }
+
+  const haConfig = await loadSceneConfigByEntity(entity_id);
+  const backup = getSceneBackup(haConfig.id);
+  if (!backup) {
+    return `Scene "${haConfig.name}" has no local backup, so there is nothing to merge. Use scene_sync to back it up.`;
+  }
+
+  const resolve = (key: string): MergeSide | undefined => resolutions[key] ?? args.default;
+  const merge = mergeSceneConfigs(backup, haConfig, resolve);
+  const haMode = (haConfig.metadata?.mode as "exclusive" | "additive" | undefined) || backup.mode;
+
+  if (sameSceneValue(merge.entities, haConfig.entities) && merge.mode === haMode
+    && merge.conflicts.length === 0 && !merge.mode_conflict) {
+    return `Scene "${haConfig.name}" has no changes to merge - local backup and Home Assistant agree.`;
+  }
+
+  const unresolved = [
+    ...merge.conflicts.map((c) => c.entity_id),
+    ...(merge.mode_conflict ? ["mode"] : []),
+  ].filter((key) => !resolve(key));
+
+  const report = {
+    scene: haConfig.name,
+    scene_id: haConfig.id,
+    base_known: merge.base_known,
+    mode: merge.mode,
+    from_ours: merge.from_ours,
+    from_theirs: merge.from_theirs,
+    combined: merge.combined,
+    conflicts: merge.conflicts.map((c) => ({ ...c, resolution: resolve(c.entity_id) ?? null })),
+    ...(merge.mode_conflict ? { mode_conflict: { ...merge.mode_conflict, resolution: resolve("mode") ?? null } } : {}),
+    changes_to_ha: diffSceneEntities(haConfig.entities, merge.entities),
+  };
+
+  if (!user_confirmed || unresolved.length > 0) {
+    return JSON.stringify({
+      preview: true,
+      ...report,
+      ...(unresolved.length > 0 ? { unresolved } : {}),
+      next_step: unresolved.length > 0
+        ? "Pick \"ours\" (local backup) or \"theirs\" (Home Assistant) for each unresolved light (or \"mode\") in resolutions, or set default, then user_confirmed=true."
+        : "Set user_confirmed=true to save the merged scene to Home Assistant and the local backup.",
+    }, null, 2);
+  }
+
+  // Keep the HA version in history so the merge can be reverted
+  await saveSceneSnapshot(haConfig.id, haConfig.name, haConfig.entities, "update", getSnapshotSettings(haConfig));
+
+  const transition = getSceneTransition(haConfig) ?? backup.transition;
+  await saveSceneConfig({
+    ...haConfig,
+    entities: merge.entities,
+    metadata: { ...haConfig.metadata, mode: merge.mode },
+  });
+  // The saved result becomes the base for the next merge
+  await backupScene(haConfig.id, haConfig.name, merge.mode, merge.entities, transition);
+
+  return JSON.stringify({ saved: true, ...report }, null, 2);
+}
+
+// Export files live in their own directory: tools can be called over HTTP,
+// so file names from the caller must not reach anywhere else on disk
+const EXPORTS_DIR = join(CONFIG_DIR, "exports");
+
+// Portable scene file (JSON export), scenes.yaml is a plain list of scene configs
+interface SceneExportFile {
+  version: number;
+  exported_at: string;
+  scenes: SceneConfig[];
+}
+
+// Export scenes as HA scenes.yaml or JSON, to a file in EXPORTS_DIR or as text
+// Entities get a friendly_name so scene_import can map lights on another instance
+async function handleExportScenes(args: {
+  scenes?: string[];
+  format?: "yaml" | "json";
+  file?: string;
+  user_confirmed?: boolean;
+}): Promise<string> {
+  const { format = "yaml", user_confirmed } = args;
+  const file = args.file ? resolveDataFile(EXPORTS_DIR, args.file) : null;
+
+  let sceneConfigs: SceneConfig[] = [];
+  if (args.scenes && args.scenes.length > 0) {
+    for (const scene of args.scenes) {
+      sceneConfigs.push(await loadSceneConfigByEntity(scene));
+    }
+  } else {
+    const sceneIds = (await getScenes()).map((s) => s.attributes.id).filter((id): id is string => !!id);
+    for (const sceneId of sceneIds) {
+      const sceneConfig = await getSceneConfig(sceneId);
+      if (sceneConfig) sceneConfigs.push(sceneConfig);
+    }
+  }
+
+  if (sceneConfigs.length === 0) {
+    return "No scenes to export.";
+  }
+
+  const lightNames = new Map((await getLights()).map((l) => [l.entity_id, l.attributes.friendly_name]));
+  sceneConfigs = sceneConfigs.map((sceneConfig) => {
+    const entities: SceneConfig["entities"] = {};
+    for (const [entityId, entityConfig] of Object.entries(sceneConfig.entities)) {
+      const friendlyName = lightNames.get(entityId);
+      entities[entityId] = typeof entityConfig === "object" && !entityConfig.friendly_name && friendlyName
+        ? { ...entityConfig, friendly_name: friendlyName }
+        : entityConfig;
+    }
+    // Scenes created outside this server have no mode, fall back to the backup
+    const mode = sceneConfig.metadata?.mode || getSceneBackup(sceneConfig.id)?.mode || "exclusive";
+    return {
+      id: sceneConfig.id,
+      name: sceneConfig.name,
+      ...(sceneConfig.icon ? { icon: sceneConfig.icon } : {}),
+      entities,
+      metadata: { ...sceneConfig.metadata, mode },
+    };
+  });
+
+  const exportFile: SceneExportFile = {
+    version: 1,
+    exported_at: new Date().toISOString(),
+    scenes: sceneConfigs,
+  };
+  const content = format === "json"
+    ? JSON.stringify(exportFile, null, 2)
+    : stringifyYaml(sceneConfigs, { version: "1.1" }); // HA reads YAML 1.1, where a bare on/off is a boolean
+
+  if (!file) {
+    return content;
+  }
+
+  const sceneNames = sceneConfigs.map((s) => s.name).join(", ");
+  if (!user_confirmed) {
+    return `Would export ${sceneConfigs.length} scenes to ${file} (${format})${existsSync(file) ? ", replacing the existing file" : ""}: ${sceneNames}. Set user_confirmed=true to write the file.`;
+  }
+
+  mkdirSync(dirname(file), { recursive: true });
+  writeFileSync(file, content);
+  return `Exported ${sceneConfigs.length} scenes to ${file} (${format}): ${sceneNames}.`;
+}
+
+// Read scenes from a scenes.yaml list, a scene_export JSON file or a single scene config
+function parseSceneImport(content: string): Record<string, unknown>[] {
+  let data: unknown;
+  try {
+    // YAML is a superset of JSON, so this handles both formats
+    data = parseYaml(content);
+  } catch (err) {
+    throw new Error(`Could not parse scene file: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  const scenes = Array.isArray(data)
+    ? data
+    : data && typeof data === "object" && Array.isArray((data as { scenes?: unknown }).scenes)
+      ? (data as { scenes: unknown[] }).scenes
+      : data && typeof data === "object" && "entities" in data
+        ? [data]
+        : null;
+
+  if (!scenes) {
+    throw new Error("Scene file must contain a list of scenes, a { scenes: [...] } object or a single scene.");
+  }
+
+  return scenes.map((scene, i) => {
+    if (!scene || typeof scene !== "object" || typeof (scene as { name?: unknown }).name !== "string"
+      || !(scene as { entities?: unknown }).entities || typeof (scene as { entities?: unknown }).entities !== "object") {
+      throw new Error(`Scene #${i + 1} needs a name and an entities map.`);
+    }
+    return scene as Record<string, unknown>;
+  });
+}
+
+// Import scenes from scene_export output or an HA scenes.yaml
+// Lights missing on this instance are mapped by friendly name
+async function handleImportScenes(args: {
+  content?: string;
+  file?: string;
+  overwrite?: boolean;
+  dry_run?: boolean;
+}): Promise<string> {
+  const { overwrite = false, dry_run = false } = args;
+
+  if (!args.content && !args.file) {
+    throw new Error("Provide the scenes as content or a file path.");
+  }
+  const content = args.content ?? readFileSync(resolveDataFile(EXPORTS_DIR, args.file!), "utf-8");
+  const importedScenes = parseSceneImport(content);
+
+  const allLights = await getLights();
+  const allLightIds = new Set(allLights.map((l) => l.entity_id));
+  const haScenes = await getScenes();
+
+  const imported: Array<Record<string, unknown>> = [];
+  const skipped: Array<{ name: string; reason: string }> = [];
+  const sceneChanges: PlannedSceneChange[] = [];
+
+  for (const importedScene of importedScenes) {
+    const name = importedScene.name as string;
+    const sourceEntities = importedScene.entities as Record<string, unknown>;
+    const metadata = (importedScene.metadata && typeof importedScene.metadata === "object"
+      ? importedScene.metadata
+      : {}) as Record<string, unknown>;
+
+    const entities: SceneConfig["entities"] = {};
+    const mappedLights: string[] = [];
+    const missingLights: string[] = [];
+    const invalidEntities: string[] = [];
+    const ignoredEntities: string[] = [];
+
+    for (const [entityId, entityConfig] of Object.entries(sourceEntities)) {
+      if (!isValidEntityId(entityId) || (typeof entityConfig !== "string" && (!entityConfig || typeof entityConfig !== "object"))) {
+        invalidEntities.push(entityId);
+        continue;
+      }
+      // Lights only by design
+      if (!entityId.startsWith("light.")) {
+        ignoredEntities.push(entityId);
+        continue;
+      }
+
+      const config = entityConfig as Record<string, unknown> | string;
+      if (allLightIds.has(entityId)) {
+        entities[entityId] = config;
+        continue;
+      }
+
+      // Same light under another entity ID: match the friendly name (or the object ID as a name)
+      const friendlyName = typeof config === "object" && typeof config.friendly_name === "string"
+        ? config.friendly_name
+        : entityId.replace(/^light\./, "").replace(/_/g, " ");
+      const match = allLights.find(
+        (l) => l.attributes.friendly_name?.toLowerCase() === friendlyName.toLowerCase() && !entities[l.entity_id]
+      );
+      if (match) {
+        entities[match.entity_id] = config;
+        mappedLights.push(`${entityId} → ${match.entity_id}`);
+      } else {
+        missingLights.push(entityId);
+      }
+    }
+
+    if (Object.keys(entities).length === 0) {
+      skipped.push({ name, reason: "none of its lights exist here" });
+      continue;
+    }
+
+    // Existing scene with the same ID or name
+    const sourceId = typeof importedScene.id === "string" && isValidSceneConfigId(importedScene.id) ? importedScene.id : null;
+    const existingId = (sourceId && haScenes.some((s) => s.attributes.id === sourceId) ? sourceId : null)
+      || haScenes.find((s) => s.attributes.friendly_name?.toLowerCase() === name.toLowerCase())?.attributes.id
+      || null;
+    if (existingId && !overwrite) {
+      skipped.push({ name, reason: "scene already exists (set overwrite=true to replace it)" });
+      continue;
+    }
+
+    const sceneId = existingId || sourceId || generateSceneId();
+    const mode = metadata.mode === "additive" ? "additive" : "exclusive";
+    const transition = typeof metadata.transition === "number" ? metadata.transition : undefined;
+    const sceneConfig: SceneConfig = {
+      id: sceneId,
+      name,
+      entities,
+      ...(typeof importedScene.icon === "string" ? { icon: importedScene.icon } : {}),
+      metadata: {
+        mode,
+        ...(transition !== undefined ? { transition } : {}),
+      },
+    };
+
+    const existingConfig = existingId ? await getSceneConfig(existingId) : null;
+    imported.push({
+      scene_id: sceneId,
+      name,
+      mode,
+      lights: Object.keys(entities).length,
+      ...(mappedLights.length > 0 ? { mapped_lights: mappedLights } : {}),
+      ...(missingLights.length > 0 ? { missing_lights: missingLights } : {}),
+      ...(invalidEntities.length > 0 ? { invalid_entities: invalidEntities } : {}),
+      ...(ignoredEntities.length > 0 ? { ignored_entities: ignoredEntities } : {}),
+    });
+
+    if (dry_run) {
+      sceneChanges.push({
+        scene_id: sceneId,
+        name,
+        change: existingConfig ? "update" : "create",
+        diff: diffSceneEntities(existingConfig?.entities ?? {}, entities),
+      });
+      continue;
+    }
+
+    if (existingConfig) {
+      await saveSceneSnapshot(sceneId, existingConfig.name, existingConfig.entities, "update", getSnapshotSettings(existingConfig));
+    }
+    await saveSceneConfig(sceneConfig);
+    await backupScene(sceneId, name, mode, entities, transition);
+  }
+
+  return JSON.stringify({
+    ...(dry_run ? { dry_run: true } : {}),
+    imported,
+    skipped,
+    ...(dry_run ? { scene_changes: sceneChanges } : {}),
+  }, null, 2);
+}
+
+// Undo recent light changes by restoring the states saved before them
+async function handleUndo(args: { steps?: number; dry_run?: boolean; user_confirmed?: boolean }): Promise<string> {
+  const { steps = 1, dry_run = false, user_confirmed } = args;
+
+  // Safety check: require explicit user confirmation (a dry run changes nothing)
+  if (!user_confirmed && !dry_run) {
+    return "BLOCKED: Undo changes lights and requires explicit user confirmation. Set user_confirmed=true only when user has explicitly requested to undo.";
+  }
+
+  const snapshots = getLightSnapshots();
+  if (snapshots.length === 0) {
+    return "Nothing to undo - no light changes recorded.";
+  }
+
+  const count = Math.max(1, Math.min(Math.floor(steps), snapshots.length));
+  const undone = snapshots.slice(0, count);
+
+  // Snapshots are newest first: older ones overwrite, so each light goes back
+  // to its state before the earliest undone action
+  const entities: SceneConfig["entities"] = {};
+  for (const snapshot of undone) {
+    Object.assign(entities, snapshot.entities);
+  }
+
+  // Skip lights that no longer exist
+  const allLights = await getLights();
+  const allLightIds = new Set(allLights.map((l) => l.entity_id));
+  for (const lightId of Object.keys(entities)) {
+    if (!allLightIds.has(lightId)) {
+      delete entities[lightId];
+    }
+  }
+
+  if (Object.keys(entities).length === 0) {
+    return "Nothing to undo - the recorded lights no longer exist.";
+  }
+
+  // Additive, so only the recorded lights are touched
+  const sceneConfig: SceneConfig = {
+    id: "undo",
+    name: `Undo ${count} action${count > 1 ? "s" : ""}`,
+    entities,
+    metadata: { mode: "additive" },
+  };
+  const notes = `Undoing: ${undone.map((s) => `${s.action} (${s.timestamp})`).join("; ")}`;
+
+  const result = await activateSceneFromConfig(sceneConfig, allLights, { notes, dryRun: dry_run });
+
+  if (!dry_run) {
+    await removeLightSnapshots(undone);
+  }
+
+  return result;
+}
+
+// MCP resources: read-only views of lights, scenes, backups and history
+// Clients can attach these as context without spending tool calls
+const RESOURCE_MIME_TYPE = "application/json";
+
+const staticResources: Resource[] = [
   {
-    name: "home-assistant-mcp",
-    version: "1.0.0",
+    uri: "ha://lights",
+    name: "All lights",
+    description: "All Home Assistant lights with state, brightness, color and color mode (same as scene_show_lights)",
+    mimeType: RESOURCE_MIME_TYPE,
   },
   {
-    capabilities: {
-      tools: {},
-    },
+    uri: "ha://scenes",
+    name: "All scenes",
+    description: "All scenes in Home Assistant with mode and light count (same as scene_list)",
+    mimeType: RESOURCE_MIME_TYPE,
+  },
+  {
+    uri: "ha://backups",
+    name: "Scene backups",
+    description: "Local backups of scenes managed by this server (scenes-backup.json)",
+    mimeType: RESOURCE_MIME_TYPE,
+  },
+  {
+    uri: "ha://history",
+    name: "Scene history",
+    description: "Snapshots of scenes taken before updates and deletions",
+    mimeType: RESOURCE_MIME_TYPE,
+  },
+];
+
+const resourceTemplates: ResourceTemplate[] = [
+  {
+    uriTemplate: "ha://lights/{entity_id}",
+    name: "Light",
+    description: "One light's current state (e.g. ha://lights/light.kitchen)",
+    mimeType: RESOURCE_MIME_TYPE,
+  },
+  {
+    uriTemplate: "ha://scenes/{id}",
+    name: "Scene config",
+    description: "Full scene config from Home Assistant by scene config ID",
+    mimeType: RESOURCE_MIME_TYPE,
+  },
+  {
+    uriTemplate: "ha://backups/{id}",
+    name: "Scene backup",
+    description: "Local backup entry of one scene by scene config ID",
+    mimeType: RESOURCE_MIME_TYPE,
+  },
+  {
+    uriTemplate: "ha://history/{id}",
+    name: "Scene history",
+    description: "Snapshots of one scene by scene config ID",
+    mimeType: RESOURCE_MIME_TYPE,
+  },
+];
+
+async function listResources(): Promise<Resource[]> {
+  const resources = [...staticResources];
+
+  try {
+    const lights = await getLights();
+    for (const light of lights) {
+      resources.push({
+        uri: `ha://lights/${light.entity_id}`,
+        name: light.attributes.friendly_name || light.entity_id,
+        mimeType: RESOURCE_MIME_TYPE,
+      });
+    }
+
+    const scenes = await getScenes();
+    for (const scene of scenes) {
+      if (!scene.attributes.id) continue;
+      resources.push({
+        uri: `ha://scenes/${scene.attributes.id}`,
+        name: `Scene: ${scene.attributes.friendly_name || scene.entity_id}`,
+        mimeType: RESOURCE_MIME_TYPE,
+      });
+    }
+  } catch {
+    // Not configured or HA unreachable - still list the collections and backups
+  }
+
+  for (const [sceneId, backup] of Object.entries(getAllSceneBackups())) {
+    resources.push({
+      uri: `ha://backups/${sceneId}`,
+      name: `Backup: ${backup.name}`,
+      mimeType: RESOURCE_MIME_TYPE,
+    });
+  }
+
+  return resources;
+}
+
+async function readResource(uri: string): Promise<string> {
+  const match = uri.match(/^ha:\/\/(lights|scenes|backups|history)(?:\/(.+))?$/);
+  if (!match) {
+    throw new Error(`Unknown resource: ${uri}`);
   }
-);
 
-// Register handlers
-server.setRequestHandler(ListToolsRequestSchema, async () => ({
-  tools,
-}));
+  const [, kind, id] = match;
+
+  switch (kind) {
+    case "lights": {
+      if (!id) {
+        return handleGetLights({});
+      }
+      const light = (await getLights()).find((l) => l.entity_id === id);
+      if (!light) {
+        throw new Error(`Light "${id}" not found.`);
+      }
+      return JSON.stringify(formatLightInfo(light), null, 2);
+    }
+    case "scenes": {
+      if (!id) {
+        const scenes = await getScenes();
+        return scenes.length > 0 ? handleListScenes() : "[]";
+      }
+      const sceneConfig = await getSceneConfig(id);
+      if (!sceneConfig) {
+        throw new Error(`Scene "${id}" not found.`);
+      }
+      return JSON.stringify(sceneConfig, null, 2);
+    }
+    case "backups": {
+      if (!id) {
+        return JSON.stringify(getAllSceneBackups(), null, 2);
+      }
+      const backup = getSceneBackup(id);
+      if (!backup) {
+        throw new Error(`Scene "${id}" not found in local backup.`);
+      }
+      return JSON.stringify(backup, null, 2);
+    }
+    default: {
+      const snapshots = getSceneSnapshots(id);
+      if (id && snapshots.length === 0) {
+        throw new Error(`No history found for scene "${id}".`);
+      }
+      return JSON.stringify(snapshots, null, 2);
+    }
+  }
+}
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
+// MCP prompts: guided workflows that walk the model through the right tool sequence
+const prompts: Prompt[] = [
+  {
+    name: "scene_from_room",
+    description: "Create a new scene from the lights currently on in a room",
+    arguments: [
+      {
+        name: "room",
+        description: "Room or name filter for the lights (e.g. 'living room'). If omitted, all lights are considered.",
+      },
+      {
+        name: "scene_name",
+        description: "Name for the new scene. If omitted, the user is asked.",
+      },
+    ],
+  },
+  {
+    name: "debug_scene",
+    description: "Debug a scene that activates wrong: diagnose, fix, test and report",
+    arguments: [
+      {
+        name: "scene_name",
+        description: "Name of the scene that activates wrong",
+        required: true,
+      },
+    ],
+  },
+  {
+    name: "evening_wind_down",
+    description: "Dim the lights that are on to a warm, low evening level",
+    arguments: [
+      {
+        name: "brightness_pct",
+        description: "Target brightness in percent (default: 20)",
+      },
+      {
+        name: "color_temp_kelvin",
+        description: "Target white color temperature in Kelvin (default: 2200)",
+      },
+    ],
+  },
+];
+
+function buildPromptText(name: string, args: Record<string, string>): string {
+  switch (name) {
+    case "scene_from_room": {
+      const room = args.room;
+      const sceneName = args.scene_name;
+      const showLights = room
+        ? `Call scene_show_lights with area="${room}" (if that area is not found, use filter="${room}" instead)`
+        : "Call scene_show_lights";
+      return [
+        `I want to save the current lighting${room ? ` in ${room}` : ""} as a new scene${sceneName ? ` called "${sceneName}"` : ""}.`,
+        "",
+        `1. ${showLights} and show me which lights are on, with brightness and color (white lights in Kelvin, colored lights by color).`,
+        "2. Ask me which of these lights belong in the scene.",
+        "3. Ask me for the scene mode and do not guess it: 'exclusive' turns off all other lights when the scene is activated, 'additive' only sets the lights in the scene.",
+        sceneName ? `4. Use the name "${sceneName}".` : "4. Ask me for the scene name.",
+        "5. Call scene_create with the name, the mode and entity_ids of the chosen lights.",
+        "6. Tell me how many lights were saved and which mode the scene uses.",
+      ].join("\n");
+    }
+    case "debug_scene": {
+      const sceneName = args.scene_name;
+      if (!sceneName) {
+        throw new Error("scene_name argument is required");
+      }
+      return [
+        `The scene "${sceneName}" does not activate correctly. Help me find and fix the problem.`,
+        "",
+        "1. Call scene_diagnose (without test_connectivity) and summarize what it reports about this scene and its local backup.",
+        `2. If it finds auto-fixable problems (null values, removed lights, new lights missing from an exclusive scene), explain them and ask me before calling scene_fix with action="fix_scene" and scene_name="${sceneName}".`,
+        `3. Ask me if I want to test the scene now. Only after I say yes, call scene_fix with action="test_scene", scene_name="${sceneName}" and user_confirmed=true.`,
+        "4. Ask me what went wrong (lights that stayed on, wrong brightness, wrong color) and call scene_fix test_scene again with my answers as issues.",
+        "5. Recommend a fix. If the lights are now the way I want, offer scene_update - but only call it when I explicitly ask.",
+      ].join("\n");
+    }
+    case "evening_wind_down": {
+      const brightness = args.brightness_pct || "20";
+      const kelvin = args.color_temp_kelvin || "2200";
+      return [
+        "It's evening and I want to wind down.",
+        "",
+        "1. Call scene_show_lights and list the lights that are on.",
+        `2. Propose dimming them to ${brightness}% and warm white ${kelvin}K (lights without color_temp support only get the brightness), and suggest lights that could be turned off. Ask me to confirm or adjust the plan.`,
+        "3. After I confirm, call scene_adjust_light for each light with user_confirmed=true.",
+        "4. Ask if I want to save this as a scene. If yes, follow the scene_create rules: ask me for the mode before saving.",
+      ].join("\n");
+    }
+    default:
+      throw new Error(`Unknown prompt: ${name}`);
+  }
+}
+
+// Request handlers (shared by every transport and session)
+async function handleCallTool(request: CallToolRequest) {
   const { name, arguments: args } = request.params;
 
   try {
@@ -2620,18 +5883,23 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         result = await handleConfigure(args as { url: string; token: string });
         break;
       case "scene_show_lights":
-        result = await handleGetLights(args as { filter?: string });
+        result = await handleGetLights(args as { filter?: string; area?: string; floor?: string });
         break;
       case "scene_adjust_light":
         result = await handleSetLight(
-          args as {
-            entity_id: string;
-            state?: string;
-            brightness?: number;
-            brightness_pct?: number;
-            rgb_color?: [number, number, number];
-            color_temp_kelvin?: number;
-            effect?: string;
+          args as LightSettings & {
+            entity_id?: string;
+            area?: string;
+            floor?: string;
+            user_confirmed?: boolean;
+          }
+        );
+        break;
+      case "scene_adjust_lights":
+        result = await handleAdjustLights(
+          args as LightSettings & {
+            entity_ids?: string[];
+            lights?: Record<string, LightSettings>;
             user_confirmed?: boolean;
           }
         );
@@ -2642,7 +5910,10 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             name: string;
             mode: "exclusive" | "additive";
             entity_ids?: string[];
+            area?: string;
+            floor?: string;
             icon?: string;
+            transition?: number;
           }
         );
         break;
@@ -2650,18 +5921,55 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         result = await handleListScenes();
         break;
       case "scene_activate":
-        result = await handleActivateScene(args as { entity_id: string; user_confirmed?: boolean });
+        result = await handleActivateScene(args as { entity_id: string; transition?: number; dry_run?: boolean; user_confirmed?: boolean });
         break;
       case "scene_delete":
         result = await handleDeleteScene(args as { entity_id: string });
         break;
       case "scene_update":
         result = await handleUpdateScene(
-          args as { entity_id: string; entity_ids?: string[] }
+          args as { entity_id: string; entity_ids?: string[]; strategy?: "merge" | "replace" | "remove" }
+        );
+        break;
+      case "scene_edit":
+        result = await handleEditScene(
+          args as {
+            entity_id: string;
+            name?: string;
+            icon?: string;
+            mode?: "exclusive" | "additive";
+            transition?: number;
+            lights?: Record<string, SceneLightEdit>;
+            remove?: string[];
+            dry_run?: boolean;
+          }
+        );
+        break;
+      case "scene_clone":
+        result = await handleCloneScene(
+          args as {
+            entity_id: string;
+            name: string;
+            entity_ids?: string[];
+            brightness_scale_pct?: number;
+            color_temp_shift_kelvin?: number;
+            mode?: "exclusive" | "additive";
+            icon?: string;
+          }
         );
         break;
       case "scene_blackout":
-        result = await handleBlackout(args as { exclude?: string[]; create_scene?: boolean; user_confirmed?: boolean });
+        result = await handleBlackout(
+          args as {
+            exclude?: string[];
+            area?: string;
+            floor?: string;
+            create_scene?: boolean;
+            transition?: number;
+            dry_run?: boolean;
+            user_confirmed?: boolean;
+          }
+        );
         break;
       case "scene_diagnose":
         result = await handleDiagnose(args as { test_connectivity?: boolean; user_confirmed?: boolean });
@@ -2672,16 +5980,44 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             action: "fix_all" | "fix_scene" | "test_scene" | "restore_from_backup";
             scene_name?: string;
             issues?: string[];
+            dry_run?: boolean;
             user_confirmed?: boolean;
           }
         );
         break;
+      case "scene_trash":
+        result = await handleTrash(args as { action?: "list" | "purge"; scene?: string; user_confirmed?: boolean });
+        break;
+      case "scene_backup_export":
+        result = handleBackupExport(args as { file?: string; user_confirmed?: boolean });
+        break;
+      case "scene_backup_restore":
+        result = await handleBackupRestore(args as { file: string; strategy?: "merge" | "replace"; user_confirmed?: boolean });
+        break;
       case "scene_sync":
         result = await handleSync();
         break;
       case "scene_history":
         result = handleHistory(args as { scene_id?: string; limit?: number });
         break;
+      case "scene_diff":
+        result = await handleDiffScene(args as { entity_id: string; other_scene?: string; snapshot?: number | string });
+        break;
+      case "scene_restore_snapshot":
+        result = await handleRestoreSnapshot(args as { scene: string; snapshot?: number | string; name?: string; user_confirmed?: boolean });
+        break;
+      case "scene_resolve_conflict":
+        result = await handleResolveConflict(args as { entity_id: string; resolutions?: Record<string, MergeSide>; default?: MergeSide; user_confirmed?: boolean });
+        break;
+      case "scene_export":
+        result = await handleExportScenes(args as { scenes?: string[]; format?: "yaml" | "json"; file?: string; user_confirmed?: boolean });
+        break;
+      case "scene_import":
+        result = await handleImportScenes(args as { content?: string; file?: string; overwrite?: boolean; dry_run?: boolean });
+        break;
+      case "scene_undo":
+        result = await handleUndo(args as { steps?: number; dry_run?: boolean; user_confirmed?: boolean });
+        break;
       default:
         throw new Error(`Unknown tool: ${name}`);
     }
@@ -2696,17 +6032,306 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       isError: true,
     };
   }
-});
+}
+
+// Main server setup
+// Each stdio process or HTTP session gets its own Server instance with the same handlers
+function createServer(): Server {
+  const server = new Server(
+    {
+      name: "home-assistant-mcp",
+      version: "1.0.0",
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true },
+        prompts: {},
+      },
+    }
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools,
+  }));
+  server.setRequestHandler(CallToolRequestSchema, handleCallTool);
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: await listResources(),
+  }));
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates,
+  }));
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => ({
+    contents: [
+      {
+        uri: request.params.uri,
+        mimeType: RESOURCE_MIME_TYPE,
+        text: await readResource(request.params.uri),
+      },
+    ],
+  }));
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts,
+  }));
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args = {} } = request.params;
+    const prompt = prompts.find((p) => p.name === name);
+    return {
+      description: prompt?.description,
+      messages: [
+        {
+          role: "user" as const,
+          content: { type: "text" as const, text: buildPromptText(name, args) },
+        },
+      ],
+    };
+  });
+
+  // Resource subscriptions of this client
+  // Light updates come from state_changed events, so make sure the WebSocket is open
+  const subscriptions: Set<string> = new Set();
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    await connectWebSocket();
+    return {};
+  });
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const notifyLightChanged: StateChangeListener = (entityId) => {
+    if (!entityId.startsWith("light.")) return;
+    for (const uri of ["ha://lights", `ha://lights/${entityId}`]) {
+      if (subscriptions.has(uri)) {
+        server.sendResourceUpdated({ uri }).catch(() => {
+          // Client went away - onclose cleans up
+        });
+      }
+    }
+  };
+  // Removed when the client disconnects, ends its HTTP session or the session expires as idle
+  stateChangeListeners.add(notifyLightChanged);
+  server.onclose = () => {
+    stateChangeListeners.delete(notifyLightChanged);
+  };
+
+  return server;
+}
+
+// Transport selection: stdio (default) or HTTP
+// CLI flags take precedence over environment variables
+interface TransportOptions {
+  mode: "stdio" | "http";
+  port: number;
+  host: string;
+  token: string;
+}
+
+const DEFAULT_HTTP_PORT = 3000;
+const DEFAULT_HTTP_HOST = "127.0.0.1";
+const MCP_HTTP_PATH = "/mcp";
+
+function getCliOption(name: string): string | undefined {
+  const args = process.argv.slice(2);
+  const index = args.indexOf(`--${name}`);
+  if (index !== -1 && args[index + 1] !== undefined) {
+    return args[index + 1];
+  }
+  const prefixed = args.find((a) => a.startsWith(`--${name}=`));
+  return prefixed?.slice(name.length + 3);
+}
+
+function loadTransportOptions(): TransportOptions {
+  const modeArg = process.argv.includes("--http") ? "http" : getCliOption("transport");
+  const mode = (modeArg || process.env.MCP_TRANSPORT || "stdio").toLowerCase();
+  if (mode !== "stdio" && mode !== "http") {
+    throw new Error(`Unknown transport "${mode}". Use "stdio" or "http".`);
+  }
+
+  const port = Number(getCliOption("port") || process.env.MCP_HTTP_PORT || DEFAULT_HTTP_PORT);
+  if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+    throw new Error(`Invalid HTTP port: ${port}`);
+  }
+
+  return {
+    mode,
+    port,
+    host: getCliOption("host") || process.env.MCP_HTTP_HOST || DEFAULT_HTTP_HOST,
+    // Token only from environment - CLI arguments are visible in the process list
+    token: process.env.MCP_HTTP_TOKEN || "",
+  };
+}
+
+// Constant-time bearer token check
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+  const header = req.headers.authorization || "";
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(header);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code: -32000, message }, id: null }));
+}
+
+// Request bodies larger than this are refused with 413 instead of buffered
+const MAX_HTTP_BODY_BYTES = 1024 * 1024;
+
+// Throws an error with status 413 once the body passes MAX_HTTP_BODY_BYTES
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const tooLarge = () => Object.assign(new Error(`Request body is larger than ${MAX_HTTP_BODY_BYTES} bytes`), { status: 413 });
+  if (Number(req.headers["content-length"]) > MAX_HTTP_BODY_BYTES) {
+    throw tooLarge();
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_HTTP_BODY_BYTES) {
+      throw tooLarge();
+    }
+    chunks.push(chunk as Buffer);
+  }
+  const body = Buffer.concat(chunks).toString("utf-8");
+  return body ? JSON.parse(body) : undefined;
+}
+
+// Sessions without requests for this long are closed (clients that went away without DELETE)
+// Override with MCP_HTTP_SESSION_IDLE_MINUTES
+const DEFAULT_HTTP_SESSION_IDLE_MINUTES = 30;
+
+function getHttpSessionIdleMs(): number {
+  const value = Number(process.env.MCP_HTTP_SESSION_IDLE_MINUTES || DEFAULT_HTTP_SESSION_IDLE_MINUTES);
+  return (Number.isFinite(value) && value > 0 ? value : DEFAULT_HTTP_SESSION_IDLE_MINUTES) * 60 * 1000;
+}
+
+interface HttpSession {
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+  lastActivity: number;
+  openRequests: number; // e.g. a long-lived SSE stream, the session isn't idle while one is open
+}
+
+async function startHttpServer(options: TransportOptions): Promise<void> {
+  if (!options.token) {
+    throw new Error("HTTP transport requires MCP_HTTP_TOKEN to be set (clients authenticate with 'Authorization: Bearer <token>').");
+  }
+
+  // Active sessions, keyed by Mcp-Session-Id
+  const sessions: Map<string, HttpSession> = new Map();
+
+  const idleMs = getHttpSessionIdleMs();
+  setInterval(() => {
+    const now = Date.now();
+    for (const [sessionId, session] of sessions) {
+      if (session.openRequests === 0 && now - session.lastActivity > idleMs) {
+        // Closing the server closes the transport too, and server.onclose drops its state change listener
+        sessions.delete(sessionId);
+        session.server.close().catch(() => {
+          // Already closed
+        });
+      }
+    }
+  }, Math.min(idleMs, 60000)).unref();
+
+  const httpServer = createHttpServer(async (req, res) => {
+    const url = new URL(req.url || "/", "http://localhost");
+    if (url.pathname !== MCP_HTTP_PATH) {
+      sendJsonRpcError(res, 404, "Not found");
+      return;
+    }
+
+    if (!isAuthorized(req, options.token)) {
+      res.setHeader("WWW-Authenticate", "Bearer");
+      sendJsonRpcError(res, 401, "Unauthorized");
+      return;
+    }
+
+    try {
+      const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+      const sessionId = req.headers["mcp-session-id"] as string | undefined;
+      const session = sessionId ? sessions.get(sessionId) : undefined;
+      let transport = session?.transport;
+
+      if (!transport) {
+        if (sessionId || req.method !== "POST" || !isInitializeRequest(body)) {
+          sendJsonRpcError(res, sessionId ? 404 : 400, sessionId ? "Session not found" : "Bad Request: No valid session ID provided");
+          return;
+        }
+
+        // New client session
+        const newServer = createServer();
+        const newTransport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: (id) => {
+            sessions.set(id, { server: newServer, transport: newTransport, lastActivity: Date.now(), openRequests: 0 });
+          },
+        });
+        newTransport.onclose = () => {
+          if (newTransport.sessionId) {
+            sessions.delete(newTransport.sessionId);
+          }
+        };
+        await newServer.connect(newTransport);
+        transport = newTransport;
+      }
+
+      if (session) {
+        session.openRequests++;
+        session.lastActivity = Date.now();
+        res.once("close", () => {
+          session.openRequests--;
+          session.lastActivity = Date.now();
+        });
+      }
+      await transport.handleRequest(req, res, body);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const status = (error as { status?: number }).status ?? 400;
+      console.error(`HTTP request failed: ${message}`);
+      if (!res.headersSent) {
+        if (status === 413) {
+          res.setHeader("Connection", "close"); // The rest of the body is not read
+        }
+        sendJsonRpcError(res, status, message);
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => resolve());
+  });
+  console.error(`Home Assistant MCP server running on http://${options.host}:${options.port}${MCP_HTTP_PATH}`);
+}
 
 // Start server
 async function main() {
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
-  console.error("Home Assistant MCP server running on stdio");
+  const options = loadTransportOptions();
+
+  if (options.mode === "http") {
+    await startHttpServer(options);
+  } else {
+    const transport = new StdioServerTransport();
+    await createServer().connect(transport);
+    console.error("Home Assistant MCP server running on stdio");
+  }
 
   // Log configuration status
   if (config.ha_url && config.ha_token) {
     console.error(`Connected to: ${config.ha_url}`);
+
+    // Open the WebSocket early so the state cache is warm for the first tool call
+    connectWebSocket().then((connected) => {
+      console.error(connected
+        ? "WebSocket API connected - using live state cache"
+        : "WebSocket API unavailable - falling back to REST");
+    });
   } else {
     console.error("Not configured. Use 'configure' tool to set Home Assistant URL and token.");
   }
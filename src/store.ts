@@ -0,0 +1,645 @@
+// Local scene backup store (~/.config/ha-mcp-server/scenes-backup.json)
+// Shared by all MCP instances of a user, every change goes through updateScenesBackup
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync, renameSync, statSync, rmSync } from "fs";
+import { setTimeout as delay } from "timers/promises";
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+import { join, dirname } from "path";
+import { homedir } from "os";
+
+// Store config in user's home directory so it persists across npx runs
+export const CONFIG_DIR = join(homedir(), ".config", "ha-mcp-server");
+const SCENES_BACKUP_FILE = join(CONFIG_DIR, "scenes-backup.json");
+
+// Local backup of scenes created/managed by this MCP
+export interface LocalSceneBackup {
+  name: string;
+  mode: "exclusive" | "additive";
+  entities: Record<string, Record<string, unknown> | string>;
+  transition?: number;         // Default transition (seconds) when activating
+  createdAt: string;
+  updatedAt: string;
+  lastKnownHAHash?: string;   // Hash of HA config when last synced
+  lastKnownHAConfig?: {        // The config behind lastKnownHAHash, base for three-way merges
+    mode: "exclusive" | "additive";
+    entities: Record<string, Record<string, unknown> | string>;
+  };
+  instanceId?: string;         // Which MCP instance last modified
+  lastSyncedFromHA?: string;   // When last synced from HA
+  deletedAt?: string;          // Tombstone: deleted via scene_delete, kept until retention expires
+}
+
+// Generate a unique instance ID for this MCP process
+export const MCP_INSTANCE_ID = `mcp-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// JSON with object keys sorted at every level, so equal configs always serialize the same
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, v]) => `${JSON.stringify(key)}:${stableStringify(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+function hashString(text: string): string {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charCodeAt(i);
+    hash = ((hash << 5) - hash) + char;
+    hash = hash & hash; // Convert to 32bit integer
+  }
+  return hash.toString(16);
+}
+
+// Simple hash function for comparing configs, covers every light and attribute
+export function hashConfig(entities: Record<string, unknown>): string {
+  return hashString(stableStringify(entities));
+}
+
+// Hash written by format versions 1 and 2: the key list doubled as a JSON replacer,
+// so it only covered the light IDs. Needed to read lastKnownHAHash values from those versions
+function legacyHashConfig(entities: Record<string, unknown>): string {
+  return hashString(JSON.stringify(entities, Object.keys(entities).sort()));
+}
+
+// Snapshot of a scene before modification
+export interface SceneSnapshot {
+  sceneId: string;
+  name: string;
+  entities: Record<string, Record<string, unknown> | string>;
+  timestamp: string;
+  operation: "update" | "delete";
+  mode?: "exclusive" | "additive"; // Scene settings, so a snapshot can recreate the scene
+  transition?: number;
+  icon?: string;
+}
+
+// Live light states captured before a tool changed them (for scene_undo)
+export interface LightStateSnapshot {
+  action: string;
+  entities: Record<string, Record<string, unknown>>;
+  timestamp: string;
+}
+
+export interface ScenesBackupStore {
+  version: number;
+  scenes: Record<string, LocalSceneBackup>; // keyed by scene ID
+  snapshots?: SceneSnapshot[];              // History of changes for recovery
+  lightSnapshots?: LightStateSnapshot[];    // Light states before recent actions, newest first
+}
+
+// Current scenes-backup.json format version
+const SCENES_BACKUP_VERSION = 3;
+
+// Upgrade steps keyed by the version they upgrade from, each returns the next version
+// When the stored format changes, bump SCENES_BACKUP_VERSION and add a step here
+const SCENES_BACKUP_MIGRATIONS: Record<number, (store: Record<string, unknown>) => Record<string, unknown>> = {
+  // Files written before the version field existed
+  0: (store) => ({
+    ...store,
+    scenes: store.scenes && typeof store.scenes === "object" ? store.scenes : {},
+    snapshots: Array.isArray(store.snapshots) ? store.snapshots : [],
+  }),
+  // Store the merge base - only known where the backup still matches the last synced HA config
+  1: (store) => ({
+    ...store,
+    scenes: Object.fromEntries(
+      Object.entries(store.scenes as Record<string, LocalSceneBackup>).map(([sceneId, backup]) => [
+        sceneId,
+        backup.lastKnownHAHash && legacyHashConfig(backup.entities as Record<string, unknown>) === backup.lastKnownHAHash
+          ? { ...backup, lastKnownHAConfig: { mode: backup.mode, entities: backup.entities } }
+          : backup,
+      ])
+    ),
+  }),
+  // Rehash lastKnownHAHash over the full config (the old hash ignored attributes)
+  // Without a merge base the hash can't be recomputed - the next scene_sync sets it again
+  2: (store) => ({
+    ...store,
+    scenes: Object.fromEntries(
+      Object.entries(store.scenes as Record<string, LocalSceneBackup>).map(([sceneId, backup]) => {
+        const { lastKnownHAHash, ...rest } = backup;
+        return [
+          sceneId,
+          lastKnownHAHash && backup.lastKnownHAConfig
+            ? { ...rest, lastKnownHAHash: hashConfig(backup.lastKnownHAConfig.entities as Record<string, unknown>) }
+            : rest,
+        ];
+      })
+    ),
+  }),
+};
+
+// Bring a parsed store up to the current version, throws if it can't be used
+export function migrateScenesBackup(data: Record<string, unknown>): ScenesBackupStore {
+  let version = typeof data.version === "number" ? data.version : 0;
+  if (version > SCENES_BACKUP_VERSION) {
+    throw new Error(`Scene backup format version ${version} is newer than this server supports (${SCENES_BACKUP_VERSION}). Update ha-mcp-server.`);
+  }
+
+  let store = data;
+  while (version < SCENES_BACKUP_VERSION) {
+    const migrate = SCENES_BACKUP_MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration from scene backup format version ${version}.`);
+    }
+    store = { ...migrate(store), version: version + 1 };
+    version++;
+  }
+
+  if (!store.scenes || typeof store.scenes !== "object" || Array.isArray(store.scenes)) {
+    throw new Error("Scene backup has no scenes map.");
+  }
+  return store as unknown as ScenesBackupStore;
+}
+
+// Advisory lock around changes to scenes-backup.json, which several MCP instances share
+const SCENES_BACKUP_LOCK_FILE = `${SCENES_BACKUP_FILE}.lock`;
+const LOCK_STALE_MS = 10000;  // A lock this old was left behind by a crashed process
+const LOCK_TIMEOUT_MS = 5000; // How long to wait for another instance
+const LOCK_RETRY_MS = 20;
+
+// Written into the lock file, so a process only ever removes its own lock
+// Unique per acquisition, so a takeover can tell which waiter won
+let lockCounter = 0;
+function newLockToken(): string {
+  return `${process.pid} ${MCP_INSTANCE_ID} ${++lockCounter}`;
+}
+
+function readLockOwner(): string | null {
+  try {
+    return readFileSync(SCENES_BACKUP_LOCK_FILE, "utf-8");
+  } catch {
+    return null;
+  }
+}
+
+function isLockStale(file: string): boolean {
+  return Date.now() - statSync(file).mtimeMs > LOCK_STALE_MS;
+}
+
+// Take over a stale lock: write our lock under a unique name and rename it over the stale one,
+// which replaces it in a single atomic step. Waiters that saw the same stale lock may rename too,
+// so give them a moment and read the lock back - only the last rename owns it
+async function takeOverStaleLock(token: string): Promise<boolean> {
+  const tempFile = `${SCENES_BACKUP_LOCK_FILE}.${process.pid}.${randomUUID()}`;
+  writeFileSync(tempFile, token);
+  try {
+    if (!isLockStale(SCENES_BACKUP_LOCK_FILE)) return false; // Taken over or renewed meanwhile
+    renameSync(tempFile, SCENES_BACKUP_LOCK_FILE);
+  } catch {
+    return false; // Released meanwhile - the next attempt creates it normally
+  } finally {
+    rmSync(tempFile, { force: true });
+  }
+
+  await delay(LOCK_RETRY_MS);
+  return readLockOwner() === token;
+}
+
+// Waits without blocking the event loop, so HTTP sessions and the WebSocket keep running
+async function acquireScenesBackupLock(): Promise<string> {
+  if (!existsSync(CONFIG_DIR)) {
+    mkdirSync(CONFIG_DIR, { recursive: true });
+  }
+
+  const token = newLockToken();
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  for (;;) {
+    try {
+      writeFileSync(SCENES_BACKUP_LOCK_FILE, token, { flag: "wx" });
+      return token;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+    }
+
+    let stale = false;
+    try {
+      stale = isLockStale(SCENES_BACKUP_LOCK_FILE);
+    } catch {
+      // Released between attempts - retry
+    }
+    if (stale && (await takeOverStaleLock(token))) {
+      return token;
+    }
+
+    if (Date.now() > deadline) {
+      const holder = readLockOwner()?.trim() || "unknown";
+      throw new Error(`Scene backup is locked by another instance (${holder}). Try again, or delete ${SCENES_BACKUP_LOCK_FILE} if no other ha-mcp-server is running.`);
+    }
+    await delay(LOCK_RETRY_MS);
+  }
+}
+
+// Remove the lock only if it is still ours - it may have been taken over as stale
+function releaseScenesBackupLock(token: string): void {
+  if (readLockOwner() === token) {
+    rmSync(SCENES_BACKUP_LOCK_FILE, { force: true });
+  }
+}
+
+// Set while a call chain holds the lock, so store helpers can call each other inside it
+const scenesBackupLockHeld = new AsyncLocalStorage<boolean>();
+
+// Lock holders of this process take turns, the file lock is between processes
+let scenesBackupLockQueue: Promise<unknown> = Promise.resolve();
+
+export function withScenesBackupLock<T>(fn: () => T | Promise<T>): Promise<T> {
+  if (scenesBackupLockHeld.getStore()) {
+    try {
+      return Promise.resolve(fn());
+    } catch (err) {
+      return Promise.reject(err);
+    }
+  }
+
+  const run = async (): Promise<T> => {
+    const token = await acquireScenesBackupLock();
+    try {
+      return await scenesBackupLockHeld.run(true, fn);
+    } finally {
+      releaseScenesBackupLock(token);
+    }
+  };
+  const result = scenesBackupLockQueue.then(run, run);
+  scenesBackupLockQueue = result.catch(() => {
+    // The caller gets the error, the next holder still runs
+  });
+  return result;
+}
+
+// Read-modify-write of the store under the lock, so concurrent instances don't lose changes
+export function updateScenesBackup<T>(mutate: (store: ScenesBackupStore) => T): Promise<T> {
+  return withScenesBackupLock(() => {
+    const store = loadScenesBackup();
+    const result = mutate(store);
+    saveScenesBackup(store);
+    return result;
+  });
+}
+
+// Move an unreadable store aside instead of overwriting it with an empty one
+// Runs right away when the caller holds the lock, otherwise once the lock is free
+function quarantineScenesBackup(content: string, reason: string): void {
+  withScenesBackupLock(() => {
+    // Another instance may have moved it already or written a good store since
+    if (!existsSync(SCENES_BACKUP_FILE) || readFileSync(SCENES_BACKUP_FILE, "utf-8") !== content) return;
+
+    const quarantineFile = join(CONFIG_DIR, `scenes-backup.corrupt-${new Date().toISOString().replace(/[:.]/g, "-")}.json`);
+    renameSync(SCENES_BACKUP_FILE, quarantineFile);
+    console.error(`Warning: scenes-backup.json ${reason} - moved to ${quarantineFile}, starting with an empty backup`);
+  }).catch((err) => {
+    console.error(`Warning: could not move the unreadable scenes-backup.json aside: ${err instanceof Error ? err.message : String(err)}`);
+  });
+}
+
+export function loadScenesBackup(): ScenesBackupStore {
+  if (!existsSync(SCENES_BACKUP_FILE)) {
+    return { version: SCENES_BACKUP_VERSION, scenes: {} };
+  }
+
+  const content = readFileSync(SCENES_BACKUP_FILE, "utf-8");
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(content);
+    if (!data || typeof data !== "object" || Array.isArray(data)) {
+      throw new Error("not a JSON object");
+    }
+  } catch (err) {
+    quarantineScenesBackup(content, `could not be read (${err instanceof Error ? err.message : String(err)})`);
+    return { version: SCENES_BACKUP_VERSION, scenes: {} };
+  }
+
+  // A newer file belongs to a newer server - refuse rather than quarantine or downgrade it
+  if (typeof data.version === "number" && data.version > SCENES_BACKUP_VERSION) {
+    throw new Error(`${SCENES_BACKUP_FILE} is format version ${data.version}, newer than this server supports (${SCENES_BACKUP_VERSION}). Update ha-mcp-server.`);
+  }
+
+  // Upgraded stores are written in the new format by the next change
+  try {
+    return migrateScenesBackup(data);
+  } catch (err) {
+    quarantineScenesBackup(content, `could not be migrated (${err instanceof Error ? err.message : String(err)})`);
+    return { version: SCENES_BACKUP_VERSION, scenes: {} };
+  }
+}
+
+// Callers hold the store lock (updateScenesBackup / withScenesBackupLock)
+export function saveScenesBackup(store: ScenesBackupStore): void {
+  if (!existsSync(CONFIG_DIR)) {
+    mkdirSync(CONFIG_DIR, { recursive: true });
+  }
+  // Write a temp file and rename it over the store, so a crash mid-write can't truncate it
+  const tempFile = `${SCENES_BACKUP_FILE}.${process.pid}.tmp`;
+  writeFileSync(tempFile, JSON.stringify(store, null, 2));
+  renameSync(tempFile, SCENES_BACKUP_FILE);
+}
+
+export function backupScene(
+  sceneId: string,
+  name: string,
+  mode: "exclusive" | "additive",
+  entities: Record<string, Record<string, unknown> | string>,
+  transition?: number
+): Promise<void> {
+  const now = new Date().toISOString();
+  const hash = hashConfig(entities as Record<string, unknown>);
+
+  return updateScenesBackup((store) => {
+    if (store.scenes[sceneId]) {
+      // Update existing
+      store.scenes[sceneId].name = name;
+      store.scenes[sceneId].mode = mode;
+      store.scenes[sceneId].entities = entities;
+      store.scenes[sceneId].transition = transition;
+      store.scenes[sceneId].updatedAt = now;
+      store.scenes[sceneId].lastKnownHAHash = hash;
+      store.scenes[sceneId].lastKnownHAConfig = { mode, entities };
+      store.scenes[sceneId].instanceId = MCP_INSTANCE_ID;
+      delete store.scenes[sceneId].deletedAt; // Recreated - no longer a tombstone
+    } else {
+      // New scene
+      store.scenes[sceneId] = {
+        name,
+        mode,
+        entities,
+        transition,
+        createdAt: now,
+        updatedAt: now,
+        lastKnownHAHash: hash,
+        lastKnownHAConfig: { mode, entities },
+        instanceId: MCP_INSTANCE_ID,
+      };
+    }
+  });
+}
+
+export function removeSceneBackup(sceneId: string): Promise<void> {
+  return updateScenesBackup((store) => {
+    delete store.scenes[sceneId];
+  });
+}
+
+// Deleted scenes stay in the backup as tombstones for this many days
+const DEFAULT_BACKUP_RETENTION_DAYS = 30;
+
+export function getBackupRetentionDays(): number {
+  const value = Number(process.env.HA_BACKUP_RETENTION_DAYS || DEFAULT_BACKUP_RETENTION_DAYS);
+  return Number.isFinite(value) && value >= 0 ? value : DEFAULT_BACKUP_RETENTION_DAYS;
+}
+
+export function getTombstoneExpiry(backup: LocalSceneBackup): Date {
+  return new Date(new Date(backup.deletedAt!).getTime() + getBackupRetentionDays() * 24 * 60 * 60 * 1000);
+}
+
+// Soft-delete: keep the backup for recovery but hide it from normal listings
+export function tombstoneSceneBackup(sceneId: string): Promise<void> {
+  return updateScenesBackup((store) => {
+    if (store.scenes[sceneId]) {
+      store.scenes[sceneId].deletedAt = new Date().toISOString();
+    }
+    purgeExpiredTombstones(store);
+  });
+}
+
+// Drop tombstones older than the retention period, returns the purged scene IDs
+// Modifies the store in place, caller saves it
+export function purgeExpiredTombstones(store: ScenesBackupStore): string[] {
+  const now = Date.now();
+  const purged = Object.entries(store.scenes)
+    .filter(([, backup]) => backup.deletedAt && getTombstoneExpiry(backup).getTime() <= now)
+    .map(([sceneId]) => sceneId);
+  for (const sceneId of purged) {
+    delete store.scenes[sceneId];
+  }
+  return purged;
+}
+
+// Purge expired tombstones from the saved store, before deleted scenes are listed or restored
+export function purgeExpiredSceneBackups(): Promise<string[]> {
+  return updateScenesBackup(purgeExpiredTombstones);
+}
+
+export function getSceneBackup(sceneId: string, options: { includeDeleted?: boolean } = {}): LocalSceneBackup | null {
+  const store = loadScenesBackup();
+  const backup = store.scenes[sceneId];
+  if (!backup || (backup.deletedAt && !options.includeDeleted)) return null;
+  return backup;
+}
+
+export function getAllSceneBackups(): Record<string, LocalSceneBackup> {
+  const store = loadScenesBackup();
+  return Object.fromEntries(Object.entries(store.scenes).filter(([, backup]) => !backup.deletedAt));
+}
+
+// Expired tombstones are left out even before they are purged
+export function getDeletedSceneBackups(): Record<string, LocalSceneBackup> {
+  const store = loadScenesBackup();
+  const now = Date.now();
+  return Object.fromEntries(
+    Object.entries(store.scenes).filter(([, backup]) => backup.deletedAt && getTombstoneExpiry(backup).getTime() > now)
+  );
+}
+
+// Maximum number of snapshots to keep
+const MAX_SNAPSHOTS = 20;
+
+// Save a snapshot of scene state before modification
+export function saveSceneSnapshot(
+  sceneId: string,
+  name: string,
+  entities: Record<string, Record<string, unknown> | string>,
+  operation: "update" | "delete",
+  settings: Pick<SceneSnapshot, "mode" | "transition" | "icon"> = {}
+): Promise<void> {
+  const snapshot: SceneSnapshot = {
+    sceneId,
+    name,
+    entities,
+    timestamp: new Date().toISOString(),
+    operation,
+    ...settings,
+  };
+
+  return updateScenesBackup((store) => {
+    // Initialize snapshots array if needed
+    if (!store.snapshots) {
+      store.snapshots = [];
+    }
+
+    // Add new snapshot at the beginning
+    store.snapshots.unshift(snapshot);
+
+    // Keep only the last MAX_SNAPSHOTS
+    if (store.snapshots.length > MAX_SNAPSHOTS) {
+      store.snapshots = store.snapshots.slice(0, MAX_SNAPSHOTS);
+    }
+  });
+}
+
+// Maximum number of pre-action light states to keep for undo
+export const MAX_LIGHT_SNAPSHOTS = 10;
+
+export function getLightSnapshots(): LightStateSnapshot[] {
+  return loadScenesBackup().lightSnapshots || [];
+}
+
+// Identifies a light snapshot across reads of the store
+export function lightSnapshotKey(snapshot: LightStateSnapshot): string {
+  return `${snapshot.action}|${snapshot.timestamp}`;
+}
+
+// Drop snapshots once they have been undone
+// By key, not position - other instances may have saved newer ones meanwhile
+export function removeLightSnapshots(snapshots: LightStateSnapshot[]): Promise<void> {
+  const keys = new Set(snapshots.map(lightSnapshotKey));
+  return updateScenesBackup((store) => {
+    store.lightSnapshots = (store.lightSnapshots || []).filter((snapshot) => !keys.has(lightSnapshotKey(snapshot)));
+  });
+}
+
+// Get recent snapshots for a scene
+export function getSceneSnapshots(sceneId?: string): SceneSnapshot[] {
+  const store = loadScenesBackup();
+  const snapshots = store.snapshots || [];
+  if (sceneId) {
+    return snapshots.filter((s) => s.sceneId === sceneId);
+  }
+  return snapshots;
+}
+
+// Find a scene's snapshot by index (0 = newest) or timestamp (prefix match, e.g. "2026-05-01T18:30")
+export function findSceneSnapshot(sceneId: string, ref: number | string): SceneSnapshot | null {
+  const snapshots = getSceneSnapshots(sceneId);
+  if (typeof ref === "number" || /^\d+$/.test(ref)) {
+    return snapshots[Number(ref)] ?? null;
+  }
+  return snapshots.find((snapshot) => snapshot.timestamp.startsWith(ref)) ?? null;
+}
+
+// Full backup archive: the whole scene store plus the HA URL - never the token
+export const BACKUP_ARCHIVE_FORMAT = "ha-mcp-server-backup";
+export const BACKUP_ARCHIVE_VERSION = 1;
+
+export interface BackupArchive {
+  format: string;
+  version: number;
+  created_at: string;
+  ha_url?: string;
+  store: ScenesBackupStore;
+}
+
+// Write an archive file
+// Never replaces an existing file unless overwrite is set (the archive may be the one about to be restored)
+export function writeBackupArchive(file: string, archive: BackupArchive, options: { overwrite?: boolean } = {}): void {
+  mkdirSync(dirname(file), { recursive: true });
+  try {
+    writeFileSync(file, JSON.stringify(archive, null, 2), { flag: options.overwrite ? "w" : "wx" });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "EEXIST") {
+      throw new Error(`Backup archive ${file} already exists.`);
+    }
+    throw err;
+  }
+}
+
+// Check a parsed archive file, throws if it can't be restored
+export function validateBackupArchive(data: unknown): BackupArchive {
+  const archive = data as Partial<BackupArchive> | null;
+  if (!archive || typeof archive !== "object" || archive.format !== BACKUP_ARCHIVE_FORMAT) {
+    throw new Error("Not an ha-mcp-server backup archive.");
+  }
+  if (typeof archive.version !== "number" || !Number.isInteger(archive.version) || archive.version < 1) {
+    throw new Error("Backup archive has no valid version.");
+  }
+  if (archive.version > BACKUP_ARCHIVE_VERSION) {
+    throw new Error(`Backup archive version ${archive.version} was created by a newer ha-mcp-server (this one supports up to ${BACKUP_ARCHIVE_VERSION}). Update the server first.`);
+  }
+  if (!archive.store || typeof archive.store !== "object") {
+    throw new Error("Backup archive has no scene store.");
+  }
+
+  // Merging compares updatedAt/deletedAt and timestamps, so check every entry before touching the local store
+  const { scenes, snapshots, lightSnapshots } = archive.store as unknown as Record<string, unknown>;
+  if (!isObject(scenes)) {
+    throw new Error("Backup archive has no scenes map.");
+  }
+  for (const [sceneId, backup] of Object.entries(scenes)) {
+    const problem = getSceneBackupProblem(backup);
+    if (problem) {
+      throw new Error(`Backup archive scene ${sceneId} ${problem}.`);
+    }
+  }
+  for (const [field, list] of [["snapshots", snapshots], ["lightSnapshots", lightSnapshots]] as const) {
+    if (list === undefined) continue;
+    if (!Array.isArray(list) || !list.every((item) => isObject(item) && typeof item.timestamp === "string" && isObject(item.entities))) {
+      throw new Error(`Backup archive ${field} must be a list of entries with a timestamp and entities.`);
+    }
+  }
+  return archive as BackupArchive;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+// What is wrong with an archived scene backup, null if it can be restored
+function getSceneBackupProblem(backup: unknown): string | null {
+  if (!isObject(backup)) return "is not an object";
+  if (typeof backup.name !== "string") return "has no name";
+  if (backup.mode !== "exclusive" && backup.mode !== "additive") return `has an unknown mode (${String(backup.mode)})`;
+  if (!isObject(backup.entities)) return "has no entities map";
+  if (typeof backup.createdAt !== "string" || typeof backup.updatedAt !== "string") return "has no createdAt/updatedAt time";
+  if (backup.deletedAt !== undefined && typeof backup.deletedAt !== "string") return "has an invalid deletedAt time";
+  if (backup.transition !== undefined && typeof backup.transition !== "number") return "has an invalid transition";
+  return null;
+}
+
+// When a backup last changed, deletion counts as a change
+function getBackupChangedAt(backup: LocalSceneBackup): string {
+  return backup.deletedAt && backup.deletedAt > backup.updatedAt ? backup.deletedAt : backup.updatedAt;
+}
+
+// Merge an archived store into the local one
+// The more recently changed copy of each scene wins, histories are combined (newest first)
+export function mergeScenesBackupStores(
+  local: ScenesBackupStore,
+  incoming: ScenesBackupStore
+): { store: ScenesBackupStore; added: string[]; updated: string[] } {
+  const scenes = { ...local.scenes };
+  const added: string[] = [];
+  const updated: string[] = [];
+
+  for (const [sceneId, backup] of Object.entries(incoming.scenes)) {
+    const existing = scenes[sceneId];
+    if (!existing) {
+      scenes[sceneId] = backup;
+      added.push(sceneId);
+    } else if (getBackupChangedAt(backup) > getBackupChangedAt(existing)) {
+      scenes[sceneId] = backup;
+      updated.push(sceneId);
+    }
+  }
+
+  const combine = <T extends { timestamp: string }>(a: T[] = [], b: T[] = [], key: (item: T) => string, max: number): T[] => {
+    const byKey = new Map([...a, ...b].map((item) => [key(item), item]));
+    return [...byKey.values()].sort((x, y) => y.timestamp.localeCompare(x.timestamp)).slice(0, max);
+  };
+
+  return {
+    store: {
+      ...local,
+      scenes,
+      snapshots: combine(local.snapshots, incoming.snapshots, (s) => `${s.sceneId}|${s.timestamp}`, MAX_SNAPSHOTS),
+      lightSnapshots: combine(local.lightSnapshots, incoming.lightSnapshots, lightSnapshotKey, MAX_LIGHT_SNAPSHOTS),
+    },
+    added,
+    updated,
+  };
+}
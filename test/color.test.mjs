@@ -0,0 +1,133 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  rgbToXy,
+  xyToRgb,
+  rgbToHs,
+  hsToRgb,
+  hsToXy,
+  xyToHs,
+  kelvinToXy,
+  xyToKelvin,
+  kelvinToRgb,
+  rgbToKelvin,
+  isInGamut,
+  clampToGamut,
+  getGamutForModel,
+  GAMUT_A,
+  GAMUT_B,
+  GAMUT_C,
+  WHITE_POINT_XY,
+} from "../dist/color.js";
+
+// Full brightness colors: xyToRgb normalizes the brightest channel to 255
+const COLORS = [
+  [255, 0, 0],
+  [0, 255, 0],
+  [0, 0, 255],
+  [255, 255, 255],
+  [255, 128, 0],
+  [0, 255, 255],
+  [180, 60, 255],
+];
+
+function assertClose(actual, expected, tolerance, message) {
+  actual.forEach((value, i) => {
+    assert.ok(Math.abs(value - expected[i]) <= tolerance, `${message}: got [${actual}], expected [${expected}]`);
+  });
+}
+
+function xyDistance(a, b) {
+  return Math.hypot(a[0] - b[0], a[1] - b[1]);
+}
+
+test("rgb -> xy -> rgb round trip", () => {
+  for (const rgb of COLORS) {
+    assertClose(xyToRgb(rgbToXy(rgb)), rgb, 1, "rgb via xy");
+  }
+});
+
+test("rgb -> hs -> rgb round trip", () => {
+  for (const rgb of COLORS) {
+    assertClose(hsToRgb(rgbToHs(rgb)), rgb, 1, "rgb via hs");
+  }
+});
+
+test("hs -> xy -> hs round trip", () => {
+  for (const hs of [[0, 100], [120, 100], [240, 100], [30, 50], [300, 75]]) {
+    assertClose(xyToHs(hsToXy(hs)), hs, 1, "hs via xy");
+  }
+});
+
+test("kelvin -> xy -> kelvin round trip", () => {
+  for (const kelvin of [2000, 2700, 4000, 5000, 6500]) {
+    const result = xyToKelvin(kelvinToXy(kelvin));
+    assert.ok(Math.abs(result - kelvin) / kelvin < 0.02, `${kelvin}K came back as ${result}K`);
+  }
+});
+
+test("kelvin -> rgb -> kelvin stays within 5%", () => {
+  for (const kelvin of [2000, 2700, 4000, 5000, 6500]) {
+    const result = rgbToKelvin(kelvinToRgb(kelvin));
+    assert.ok(Math.abs(result - kelvin) / kelvin < 0.05, `${kelvin}K came back as ${result}K`);
+  }
+});
+
+test("xyToKelvin doesn't divide by zero at the formula's pole", () => {
+  assert.equal(xyToKelvin([0.3, 0.1858]), 40000);
+  assert.equal(xyToKelvin([0.15, 0.06]), 40000);
+  assert.equal(xyToKelvin([NaN, 0.33]), 40000);
+  assert.ok(Number.isFinite(xyToKelvin([0.3, 0.18579])));
+});
+
+test("gamut corners are inside their gamut", () => {
+  for (const gamut of [GAMUT_A, GAMUT_B, GAMUT_C]) {
+    assert.ok(isInGamut(gamut.red, gamut));
+    assert.ok(isInGamut(gamut.green, gamut));
+    assert.ok(isInGamut(gamut.blue, gamut));
+  }
+});
+
+test("points inside the gamut are left alone", () => {
+  assert.deepEqual(clampToGamut(WHITE_POINT_XY, GAMUT_A), WHITE_POINT_XY);
+  assert.deepEqual(clampToGamut(WHITE_POINT_XY, GAMUT_C), WHITE_POINT_XY);
+  assert.deepEqual(clampToGamut([0.5, 0.4], GAMUT_C), [0.5, 0.4]);
+});
+
+test("D65 white is just outside gamut B and barely moves", () => {
+  assert.equal(isInGamut(WHITE_POINT_XY, GAMUT_B), false);
+  assert.ok(xyDistance(clampToGamut(WHITE_POINT_XY, GAMUT_B), WHITE_POINT_XY) < 0.001);
+});
+
+test("out of gamut points move to the closest edge", () => {
+  const green = rgbToXy([0, 255, 0]);
+  assert.equal(isInGamut(green, GAMUT_B), false);
+
+  const clamped = clampToGamut(green, GAMUT_B);
+  // On the red-green edge of gamut B, and no farther than the green corner
+  const edge = [GAMUT_B.green[0] - GAMUT_B.red[0], GAMUT_B.green[1] - GAMUT_B.red[1]];
+  const cross = edge[0] * (clamped[1] - GAMUT_B.red[1]) - edge[1] * (clamped[0] - GAMUT_B.red[0]);
+  assert.ok(Math.abs(cross) < 1e-9);
+  assert.ok(xyDistance(clamped, green) <= xyDistance(GAMUT_B.green, green));
+});
+
+test("points beyond a corner clamp to that corner", () => {
+  assertClose(clampToGamut([0.1, 0.01], GAMUT_C), GAMUT_C.blue, 1e-9, "blue corner");
+  assertClose(clampToGamut([0.75, 0.25], GAMUT_A), GAMUT_A.red, 1e-9, "red corner");
+});
+
+test("conversions clamp to the gamut when one is given", () => {
+  const blue = rgbToXy([0, 0, 255], GAMUT_B);
+  assertClose(blue, GAMUT_B.blue, 0.01, "sRGB blue in gamut B");
+  const hs = xyToHs([0.1, 0.01], GAMUT_C);
+  // hs is rounded to 0.1 and goes through 8-bit RGB, so deep blue comes back less exact
+  assertClose(hsToXy(hs), GAMUT_C.blue, 0.02, "hs of clamped blue");
+});
+
+test("gamut by Hue model", () => {
+  assert.equal(getGamutForModel("LST001"), GAMUT_A);
+  assert.equal(getGamutForModel("LCT001"), GAMUT_B);
+  assert.equal(getGamutForModel("LCT015"), GAMUT_C);
+  assert.equal(getGamutForModel("TRADFRI bulb E27"), null);
+  assert.equal(getGamutForModel(null), null);
+});
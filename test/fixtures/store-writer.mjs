@@ -0,0 +1,13 @@
+// Child process for store.test.mjs: writes scenes and snapshots into the store under $HOME
+import { backupScene, saveSceneSnapshot } from "../../dist/store.js";
+
+const [writer, count] = process.argv.slice(2);
+
+for (let i = 0; i < Number(count); i++) {
+  const sceneId = `scene.${writer}_${i}`;
+  const entities = { [`light.${writer}_${i}`]: { state: "on", brightness: i } };
+  await backupScene(sceneId, `${writer} ${i}`, "exclusive", entities);
+  if (i % 3 === 0) {
+    await saveSceneSnapshot(sceneId, `${writer} ${i}`, entities, "update");
+  }
+}
@@ -0,0 +1,235 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { fork } from "node:child_process";
+import { mkdtempSync, rmSync, readFileSync, writeFileSync, existsSync, mkdirSync, utimesSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join, dirname } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const WRITER = join(dirname(fileURLToPath(import.meta.url)), "fixtures", "store-writer.mjs");
+const WRITERS = 4;
+const SCENES_PER_WRITER = 10;
+
+// CONFIG_DIR comes from homedir(), so a temp HOME keeps the tests away from the real store
+const home = mkdtempSync(join(tmpdir(), "ha-mcp-store-"));
+const configDir = join(home, ".config", "ha-mcp-server");
+const backupFile = join(configDir, "scenes-backup.json");
+const lockFile = `${backupFile}.lock`;
+
+let store;
+
+before(async () => {
+  process.env.HOME = home;
+  store = await import("../dist/store.js");
+});
+
+after(() => {
+  rmSync(home, { recursive: true, force: true });
+});
+
+function runWriter(name) {
+  return new Promise((resolve, reject) => {
+    const child = fork(WRITER, [name, String(SCENES_PER_WRITER)], {
+      env: { ...process.env, HOME: home },
+    });
+    child.on("error", reject);
+    child.on("exit", (code) => (code === 0 ? resolve() : reject(new Error(`${name} exited with ${code}`))));
+  });
+}
+
+test("concurrent writers don't lose scenes or snapshots", async () => {
+  const names = Array.from({ length: WRITERS }, (_, i) => `writer${i}`);
+  await Promise.all(names.map(runWriter));
+
+  const saved = JSON.parse(readFileSync(backupFile, "utf-8"));
+  for (const name of names) {
+    for (let i = 0; i < SCENES_PER_WRITER; i++) {
+      assert.ok(saved.scenes[`scene.${name}_${i}`], `scene.${name}_${i} missing`);
+    }
+  }
+  assert.equal(Object.keys(saved.scenes).length, WRITERS * SCENES_PER_WRITER);
+  assert.equal(saved.snapshots.length, WRITERS * Math.ceil(SCENES_PER_WRITER / 3));
+  assert.equal(existsSync(lockFile), false);
+});
+
+function writeStaleLock() {
+  mkdirSync(configDir, { recursive: true });
+  writeFileSync(lockFile, "99999 mcp-crashed");
+  const old = new Date(Date.now() - 60_000);
+  utimesSync(lockFile, old, old);
+}
+
+test("a stale lock is taken over", async () => {
+  writeStaleLock();
+
+  await store.backupScene("scene.after_stale", "After stale", "exclusive", { "light.a": "on" });
+
+  assert.ok(store.getSceneBackup("scene.after_stale"));
+  assert.equal(existsSync(lockFile), false);
+});
+
+test("writers racing for a stale lock take it over one at a time", async () => {
+  writeStaleLock();
+  const names = Array.from({ length: WRITERS }, (_, i) => `racer${i}`);
+  await Promise.all(names.map(runWriter));
+
+  const saved = JSON.parse(readFileSync(backupFile, "utf-8"));
+  for (const name of names) {
+    for (let i = 0; i < SCENES_PER_WRITER; i++) {
+      assert.ok(saved.scenes[`scene.${name}_${i}`], `scene.${name}_${i} missing`);
+    }
+  }
+  assert.equal(existsSync(lockFile), false);
+});
+
+test("a live lock held by another instance times out", async () => {
+  writeFileSync(lockFile, "99999 mcp-other");
+  try {
+    await assert.rejects(
+      store.backupScene("scene.blocked", "Blocked", "exclusive", { "light.a": "on" }),
+      /locked by another instance \(99999 mcp-other\)/
+    );
+  } finally {
+    rmSync(lockFile, { force: true });
+  }
+  assert.equal(store.getSceneBackup("scene.blocked"), null);
+});
+
+test("waiting for a held lock doesn't block the event loop", async () => {
+  writeFileSync(lockFile, "99999 mcp-other");
+  let ticks = 0;
+  const timer = setInterval(() => ticks++, 10);
+  setTimeout(() => rmSync(lockFile, { force: true }), 200);
+  try {
+    await store.backupScene("scene.after_wait", "After wait", "exclusive", { "light.a": "on" });
+  } finally {
+    clearInterval(timer);
+  }
+  assert.ok(ticks >= 5, `only ${ticks} timer ticks while waiting`);
+  assert.ok(store.getSceneBackup("scene.after_wait"));
+});
+
+test("concurrent changes in one process are all kept", async () => {
+  await Promise.all(Array.from({ length: 10 }, (_, i) =>
+    store.backupScene(`scene.parallel_${i}`, `Parallel ${i}`, "exclusive", { "light.a": "on" })
+  ));
+  for (let i = 0; i < 10; i++) {
+    assert.ok(store.getSceneBackup(`scene.parallel_${i}`), `scene.parallel_${i} missing`);
+  }
+  assert.equal(existsSync(lockFile), false);
+});
+
+test("releasing leaves a lock that was taken over by someone else", async () => {
+  await store.withScenesBackupLock(() => {
+    // Another instance took the lock as stale while we were holding it
+    writeFileSync(lockFile, "99999 mcp-other");
+  });
+  assert.equal(readFileSync(lockFile, "utf-8"), "99999 mcp-other");
+  rmSync(lockFile);
+});
+
+function archive(scenes, extra = {}) {
+  return { format: store.BACKUP_ARCHIVE_FORMAT, version: 1, created_at: "2026-01-01T00:00:00.000Z", store: { version: 2, scenes, ...extra } };
+}
+
+const VALID_SCENE = {
+  name: "Evening",
+  mode: "exclusive",
+  entities: { "light.a": { state: "on" } },
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-02T00:00:00.000Z",
+};
+
+test("backup archives with valid scenes pass validation", () => {
+  assert.doesNotThrow(() => store.validateBackupArchive(archive({ "1": VALID_SCENE }, { snapshots: [], lightSnapshots: [] })));
+});
+
+test("backup archives with malformed scenes are refused", () => {
+  const cases = [
+    [archive([]), /no scenes map/],
+    [archive({ "1": "scene" }), /scene 1 is not an object/],
+    [archive({ "1": { ...VALID_SCENE, name: 5 } }), /scene 1 has no name/],
+    [archive({ "1": { ...VALID_SCENE, mode: "other" } }), /unknown mode/],
+    [archive({ "1": { ...VALID_SCENE, entities: null } }), /no entities map/],
+    [archive({ "1": { ...VALID_SCENE, updatedAt: undefined } }), /no createdAt\/updatedAt/],
+    [archive({ "1": { ...VALID_SCENE, deletedAt: 1 } }), /invalid deletedAt/],
+    [archive({ "1": VALID_SCENE }, { snapshots: [{ sceneId: "1" }] }), /snapshots must be a list/],
+  ];
+  for (const [data, error] of cases) {
+    assert.throws(() => store.validateBackupArchive(data), error);
+  }
+});
+
+test("scene configs that differ only in an attribute hash differently", () => {
+  assert.notEqual(
+    store.hashConfig({ "light.a": { state: "on", brightness: 1 } }),
+    store.hashConfig({ "light.a": { state: "on", brightness: 200 } })
+  );
+  assert.notEqual(
+    store.hashConfig({ "light.a": { state: "on", rgb_color: [255, 0, 0] } }),
+    store.hashConfig({ "light.a": { state: "on", rgb_color: [0, 0, 255] } })
+  );
+  assert.equal(
+    store.hashConfig({ "light.a": { state: "on", brightness: 1 }, "light.b": "off" }),
+    store.hashConfig({ "light.b": "off", "light.a": { brightness: 1, state: "on" } })
+  );
+});
+
+test("stores from format version 2 get their hashes recomputed", () => {
+  const entities = { "light.a": { state: "on", brightness: 120 } };
+  const migrated = store.migrateScenesBackup({
+    version: 2,
+    scenes: {
+      "1": { ...VALID_SCENE, entities, lastKnownHAHash: "old", lastKnownHAConfig: { mode: "exclusive", entities } },
+      "2": { ...VALID_SCENE, lastKnownHAHash: "old" },
+    },
+  });
+  assert.equal(migrated.scenes["1"].lastKnownHAHash, store.hashConfig(entities));
+  assert.equal(migrated.scenes["2"].lastKnownHAHash, undefined);
+});
+
+test("backup archives are not overwritten without the overwrite option", () => {
+  const file = join(home, "backups", "archive.json");
+  const first = archive({ "1": VALID_SCENE });
+  store.writeBackupArchive(file, first);
+
+  const second = archive({});
+  assert.throws(() => store.writeBackupArchive(file, second), /already exists/);
+  assert.deepEqual(JSON.parse(readFileSync(file, "utf-8")), first);
+
+  store.writeBackupArchive(file, second, { overwrite: true });
+  assert.deepEqual(JSON.parse(readFileSync(file, "utf-8")), second);
+});
+
+test("undone light snapshots are removed by key, keeping ones saved meanwhile", async () => {
+  const snapshot = (action, timestamp) => ({ action, entities: { "light.a": { state: "on" } }, timestamp });
+  const undone = snapshot("scene_activate: scene.evening", "2026-01-01T10:00:00.000Z");
+  const older = snapshot("scene_blackout", "2026-01-01T09:00:00.000Z");
+  await store.updateScenesBackup((s) => {
+    s.lightSnapshots = [undone, older];
+  });
+
+  // Another instance saves a snapshot while the undo is running
+  const newer = snapshot("scene_adjust_lights", "2026-01-01T10:00:05.000Z");
+  await store.updateScenesBackup((s) => {
+    s.lightSnapshots = [newer, ...s.lightSnapshots];
+  });
+
+  await store.removeLightSnapshots([undone]);
+  assert.deepEqual(store.getLightSnapshots(), [newer, older]);
+});
+
+test("expired tombstones are not listed and are purged", async () => {
+  const daysAgo = (days) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+  await store.updateScenesBackup((s) => {
+    s.scenes["scene.expired"] = { ...VALID_SCENE, name: "Expired", deletedAt: daysAgo(store.getBackupRetentionDays() + 1) };
+    s.scenes["scene.recent"] = { ...VALID_SCENE, name: "Recent", deletedAt: daysAgo(1) };
+  });
+
+  assert.deepEqual(Object.keys(store.getDeletedSceneBackups()), ["scene.recent"]);
+
+  assert.deepEqual(await store.purgeExpiredSceneBackups(), ["scene.expired"]);
+  const saved = JSON.parse(readFileSync(backupFile, "utf-8"));
+  assert.equal(saved.scenes["scene.expired"], undefined);
+  assert.ok(saved.scenes["scene.recent"]);
+});